@@ -0,0 +1,8 @@
+import DislikeListScreen from '@/components/DislikeListScreen'
+import React from 'react'
+
+const DislikeListModal = () => {
+	return <DislikeListScreen />
+}
+
+export default DislikeListModal
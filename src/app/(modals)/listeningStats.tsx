@@ -0,0 +1,8 @@
+import ListeningStatsScreen from '@/components/ListeningStatsScreen'
+import React from 'react'
+
+const ListeningStatsModal = () => {
+	return <ListeningStatsScreen />
+}
+
+export default ListeningStatsModal
@@ -0,0 +1,8 @@
+import NetworkInspectorScreen from '@/components/NetworkInspectorScreen'
+import React from 'react'
+
+const NetworkInspectorModal = () => {
+	return <NetworkInspectorScreen />
+}
+
+export default NetworkInspectorModal
@@ -1,6 +1,7 @@
 import { NowPlayList } from '@/components/NowPlayList'
 import { colors, screenPadding } from '@/constants/tokens'
 import { usePlayList } from '@/store/playList'
+import { useUpNext } from '@/store/upNext'
 import { defaultStyles } from '@/styles'
 import { useHeaderHeight } from '@react-navigation/elements'
 import React from 'react'
@@ -11,10 +12,15 @@ import { Track } from 'react-native-track-player'
 const PlayListScreen = () => {
 	const headerHeight = useHeaderHeight()
 	const tracks = usePlayList()
+	const upNextTracks = useUpNext()
 
 	return (
 		<SafeAreaView style={[styles.modalContainer, { paddingTop: headerHeight }]}>
-			<NowPlayList id="PlayListScreen" tracks={tracks as Track[]} />
+			<NowPlayList
+				id="PlayListScreen"
+				tracks={tracks as Track[]}
+				upNextTracks={upNextTracks as Track[]}
+			/>
 		</SafeAreaView>
 	)
 }
@@ -1,16 +1,43 @@
 // src/app/modals/settingModal.tsx
 import { colors } from '@/constants/tokens'
+import { SandboxError } from '@/helpers/errors/MusicError'
 import { logError, logInfo } from '@/helpers/logger'
+import { sortMusicApis } from '@/helpers/musicApiResolver'
+import { addTrustedKey, removeTrustedKey } from '@/helpers/sourceIntegrity'
+import {
+	checkingUpdateStore,
+	checkMusicApiUpdates,
+	getMusicApiBackups,
+	promptMusicApiUpdates,
+	rollbackMusicApi,
+} from '@/helpers/sourceUpdater'
+import testMusicSource from '@/helpers/testMusicSource'
+import { ShuffleWeight } from '@/helpers/types'
+import {
+	defaultBaseUrls,
+	flushScrobbleQueue,
+	loginLastfm,
+	scrobbleErrorStore,
+	scrobbleQueueStore,
+	scrobblerConfigStore,
+	ScrobblerType,
+	setScrobblerConfig,
+	testScrobbler,
+} from '@/helpers/scrobbler'
 import myTrackPlayer, {
 	autoCacheLocalStore,
 	isCachedIconVisibleStore,
+	musicApiOrderStore,
 	musicApiSelectedStore,
+	prefetchSecondsStore,
+	shuffleWeightStore,
 	musicApiStore,
 	nowApiState,
 	songsNumsToLoadStore,
 	useCurrentQuality,
 } from '@/helpers/trackPlayerIndex'
 import PersistStatus from '@/store/PersistStatus'
+import Config from '@/store/config'
 import i18n, { changeLanguage, nowLanguage } from '@/utils/i18n'
 import { GlobalState } from '@/utils/stateMapper'
 import { showToast } from '@/utils/utils'
@@ -75,6 +102,7 @@ const MusicSourceMenu = ({ isDelete, onSelectSource }) => {
 	const sourceStatus = sourceStatusStore.useValue() // 使用GlobalState获取音源状态
 	const selectedApi = musicApiSelectedStore.useValue()
 	const musicApis = musicApiStore.useValue()
+	const apiState = nowApiState.useValue() // 播放时记录的音源状态
 
 	useEffect(() => {
 		if (musicApis && Array.isArray(musicApis)) {
@@ -102,92 +130,6 @@ const MusicSourceMenu = ({ isDelete, onSelectSource }) => {
 		return () => clearTimeout(timer)
 	}, [cooldown])
 
-	// 测试单个音源是否可用
-	const testMusicSource = async (musicApi) => {
-		try {
-			logInfo(`开始测试音源: ${musicApi.name}, ID: ${musicApi.id}`)
-
-			// 检查musicApi.getMusicUrl是否存在且为函数
-			if (typeof musicApi.getMusicUrl !== 'function') {
-				logError(`音源 ${musicApi.name} 的 getMusicUrl 不是函数或不存在`, musicApi)
-				return { status: '异常', error: 'getMusicUrl 方法不可用' }
-			}
-
-			// 设置超时
-			const timeoutPromise = new Promise((_, reject) => {
-				setTimeout(() => reject(new Error('请求超时')), 5000)
-			})
-			logInfo(
-				`测试音源详情:`,
-				JSON.stringify({
-					name: musicApi.name,
-					id: musicApi.id,
-					author: musicApi.author,
-					version: musicApi.version,
-				}),
-			)
-
-			// 尝试获取测试歌曲URL
-			// 这里使用了固定的测试歌曲信息，可以根据实际需求修改
-			const testTitle = '稻香'
-			const testArtist = '周杰伦'
-			const testId = '004IArbh3ytHgR'
-
-			logInfo(`测试歌曲信息: ${testTitle} - ${testArtist}, ID: ${testId}`)
-
-			// 按音质降级尝试
-			const qualityOrder = ['128k']
-
-			for (const quality of qualityOrder) {
-				try {
-					logInfo(`尝试获取音源 ${musicApi.name} 的 ${quality} 音质`)
-
-					// 记录函数调用前的参数
-					logInfo(
-						`调用 getMusicUrl 参数: title=${testTitle}, artist=${testArtist}, id=${testId}, quality=${quality}`,
-					)
-
-					const resp_url = await Promise.race([
-						musicApi.getMusicUrl(testTitle, testArtist, testId, quality),
-						timeoutPromise,
-					])
-
-					// 记录返回值
-					logInfo(`音源 ${musicApi.name} 返回结果: ${resp_url}`)
-
-					if (resp_url && resp_url !== '') {
-						// 找到可用音源
-						logInfo(`音源 ${musicApi.name} 测试成功，音质: ${quality}, URL: ${resp_url}`)
-						return { status: '正常', url: resp_url }
-					} else {
-						logInfo(`音源 ${musicApi.name} 返回空URL，音质: ${quality}`)
-					}
-				} catch (err) {
-					// 继续尝试下一个音质
-					logError(`测试音源 ${musicApi.name} ${quality} 音质失败:`, err)
-					logInfo(`错误详情: ${err.message || '未知错误'}`)
-					// 尝试打印错误堆栈
-					if (err.stack) {
-						logInfo(`错误堆栈: ${err.stack}`)
-					}
-				}
-			}
-
-			// 所有音质都尝试失败
-			logInfo(`音源 ${musicApi.name} 所有音质测试均失败`)
-			return { status: '异常', error: '无法获取音乐URL' }
-		} catch (error) {
-			logError(`测试音源 ${musicApi?.name || '未知'} 时发生异常:`, error)
-			if (error.stack) {
-				logInfo(`异常错误堆栈: ${error.stack}`)
-			}
-			return {
-				status: '异常',
-				error: error.message === '请求超时' ? '请求超时' : error.message || '未知错误',
-			}
-		}
-	}
-
 	// 测试所有音源状态
 	const testAllSources = async () => {
 		if (!musicApis || !Array.isArray(musicApis) || musicApis.length === 0) {
@@ -230,11 +172,13 @@ const MusicSourceMenu = ({ isDelete, onSelectSource }) => {
 
 	// 获取状态对应的图标/文本
 	const getStatusIndicator = (sourceId) => {
-		if (!sourceStatus[sourceId]) {
+		// 优先显示测试结果，没有测试过则显示播放时记录的状态
+		const status = sourceStatus[sourceId]?.status ?? apiState[sourceId]?.status
+		if (!status) {
 			return ''
 		}
 
-		switch (sourceStatus[sourceId].status) {
+		switch (status) {
 			case '正常':
 				return ' ✅'
 			case '异常':
@@ -295,19 +239,391 @@ const MusicSourceMenu = ({ isDelete, onSelectSource }) => {
 	)
 }
 
-interface ModuleExports {
-	id?: string
-	author?: string
-	name?: string
-	version?: string
-	srcUrl?: string
-	getMusicUrl?: (
-		songname: string,
-		artist: string,
-		songmid: string,
-		quality: string,
-	) => Promise<string>
+const MusicSourcePriorityMenu = () => {
+	const musicApis = musicApiStore.useValue()
+	const musicApiOrder = musicApiOrderStore.useValue()
+	const selectedApi = musicApiSelectedStore.useValue()
+	// 当前选中的音源始终最先尝试，这里调整的是其余音源的失败切换顺序
+	const sortedApis = sortMusicApis(musicApis || [], musicApiOrder)
+
+	const handlePressAction = (event: string) => {
+		const separatorIndex = event.indexOf(':')
+		const action = event.slice(0, separatorIndex)
+		const sourceId = event.slice(separatorIndex + 1)
+		const ids = sortedApis.map((api) => api.id)
+		const index = ids.indexOf(sourceId)
+		if (index === -1) {
+			return
+		}
+		ids.splice(index, 1)
+		switch (action) {
+			case 'top':
+				ids.unshift(sourceId)
+				break
+			case 'up':
+				ids.splice(Math.max(index - 1, 0), 0, sourceId)
+				break
+			case 'down':
+				ids.splice(Math.min(index + 1, ids.length), 0, sourceId)
+				break
+			default:
+				return
+		}
+		myTrackPlayer.setMusicApiOrder(ids)
+	}
+
+	return (
+		<MenuView
+			onPressAction={({ nativeEvent: { event } }) => handlePressAction(event)}
+			actions={sortedApis.map((api, index) => ({
+				id: api.id,
+				title: `${index + 1}. ${api.name}`,
+				state: selectedApi && selectedApi.id === api.id ? 'on' : 'off',
+				subactions: [
+					{ id: `top:${api.id}`, title: i18n.t('settings.actions.sourcePriority.moveTop') },
+					{ id: `up:${api.id}`, title: i18n.t('settings.actions.sourcePriority.moveUp') },
+					{ id: `down:${api.id}`, title: i18n.t('settings.actions.sourcePriority.moveDown') },
+				],
+			}))}
+		>
+			<TouchableOpacity style={styles.menuTrigger}>
+				<Text style={styles.menuTriggerText}>
+					{i18n.t('settings.actions.sourcePriority.adjust')}
+				</Text>
+			</TouchableOpacity>
+		</MenuView>
+	)
+}
+
+const MusicSourceUpdateMenu = () => {
+	const musicApis = musicApiStore.useValue()
+	const isChecking = checkingUpdateStore.useValue()
+	const autoUpdatePlugin = Config.useConfig('setting.basic.autoUpdatePlugin') ?? false
+	const notCheckPluginVersion = Config.useConfig('setting.basic.notCheckPluginVersion') ?? false
+	// 只显示仍然存在的音源的旧版本
+	const backups = Object.values(getMusicApiBackups()).filter((backup) =>
+		musicApis?.some((api) => api.id === backup.id),
+	)
+
+	const checkUpdates = async () => {
+		const updates = await checkMusicApiUpdates()
+		if (!updates.length) {
+			Alert.alert(
+				i18n.t('settings.actions.sourceUpdate.notAvailable'),
+				i18n.t('settings.actions.sourceUpdate.notAvailableMessage'),
+			)
+			return
+		}
+		promptMusicApiUpdates(updates)
+	}
+
+	const handlePressAction = (event: string) => {
+		if (event === 'check') {
+			checkUpdates()
+		} else if (event === 'autoUpdate') {
+			Config.set('setting.basic.autoUpdatePlugin', !autoUpdatePlugin)
+		} else if (event === 'notCheckVersion') {
+			Config.set('setting.basic.notCheckPluginVersion', !notCheckPluginVersion)
+		} else if (event.startsWith('rollback:')) {
+			if (rollbackMusicApi(event.slice('rollback:'.length))) {
+				showToast(i18n.t('settings.actions.sourceUpdate.rollbackSuccess'), '', 'success')
+			}
+		}
+	}
+
+	return (
+		<MenuView
+			onPressAction={({ nativeEvent: { event } }) => handlePressAction(event)}
+			actions={[
+				{
+					id: 'check',
+					title: i18n.t('settings.actions.sourceUpdate.check'),
+					attributes: isChecking ? { disabled: true } : undefined,
+				},
+				{
+					id: 'autoUpdate',
+					title: i18n.t('settings.actions.sourceUpdate.autoUpdate'),
+					state: autoUpdatePlugin ? 'on' : 'off',
+				},
+				{
+					id: 'notCheckVersion',
+					title: i18n.t('settings.actions.sourceUpdate.notCheckVersion'),
+					state: notCheckPluginVersion ? 'on' : 'off',
+				},
+				...(backups.length
+					? [
+							{
+								id: 'rollback',
+								title: i18n.t('settings.actions.sourceUpdate.rollback'),
+								subactions: backups.map((backup) => ({
+									id: `rollback:${backup.id}`,
+									title: `${backup.name} ${backup.version}`,
+								})),
+							},
+						]
+					: []),
+			]}
+		>
+			<TouchableOpacity style={styles.menuTrigger}>
+				<Text style={styles.menuTriggerText}>
+					{isChecking
+						? i18n.t('settings.actions.sourceUpdate.checking')
+						: '             ' + i18n.t('settings.actions.sourceUpdate.check')}
+				</Text>
+			</TouchableOpacity>
+		</MenuView>
+	)
+}
+
+const TrustedKeysMenu = () => {
+	const trustedKeys = PersistStatus.useValue('music.trustedSourceKeys', []) ?? []
+
+	const promptAddKey = () => {
+		Alert.prompt(
+			i18n.t('settings.actions.trustedKeys.add'),
+			i18n.t('settings.actions.trustedKeys.nameMessage'),
+			[
+				{ text: i18n.t('settings.actions.trustedKeys.cancel'), style: 'cancel' },
+				{
+					text: i18n.t('settings.actions.trustedKeys.confirm'),
+					onPress: (name) => {
+						if (!name?.trim()) {
+							return
+						}
+						Alert.prompt(
+							i18n.t('settings.actions.trustedKeys.add'),
+							i18n.t('settings.actions.trustedKeys.keyMessage'),
+							[
+								{ text: i18n.t('settings.actions.trustedKeys.cancel'), style: 'cancel' },
+								{
+									text: i18n.t('settings.actions.trustedKeys.confirm'),
+									onPress: (key) => {
+										if (addTrustedKey(name, key ?? '')) {
+											showToast(i18n.t('settings.actions.trustedKeys.added'), '', 'success')
+										}
+									},
+								},
+							],
+							'plain-text',
+						)
+					},
+				},
+			],
+			'plain-text',
+		)
+	}
+
+	return (
+		<MenuView
+			onPressAction={({ nativeEvent: { event } }) => {
+				if (event === 'add') {
+					promptAddKey()
+				} else if (event.startsWith('remove:')) {
+					removeTrustedKey(event.slice('remove:'.length))
+				}
+			}}
+			actions={[
+				{ id: 'add', title: i18n.t('settings.actions.trustedKeys.add') },
+				...trustedKeys.map((item) => ({
+					id: item.name,
+					title: item.name,
+					subactions: [
+						{
+							id: `remove:${item.name}`,
+							title: i18n.t('settings.actions.trustedKeys.remove'),
+							attributes: { destructive: true },
+						},
+					],
+				})),
+			]}
+		>
+			<TouchableOpacity style={styles.menuTrigger}>
+				<Text style={styles.menuTriggerText}>
+					{'             ' +
+						i18n.t('settings.actions.trustedKeys.count', { count: trustedKeys.length })}
+				</Text>
+			</TouchableOpacity>
+		</MenuView>
+	)
+}
+
+const ScrobblerMenu = () => {
+	const config = scrobblerConfigStore.useValue()
+	const queue = scrobbleQueueStore.useValue()
+	const scrobbleError = scrobbleErrorStore.useValue()
+
+	const prompt = (
+		title: string,
+		message: string,
+		type: 'plain-text' | 'secure-text',
+		defaultValue = '',
+	) =>
+		new Promise<string | null>((resolve) => {
+			Alert.prompt(
+				title,
+				message,
+				[
+					{
+						text: i18n.t('settings.actions.scrobble.cancel'),
+						style: 'cancel',
+						onPress: () => resolve(null),
+					},
+					{
+						text: i18n.t('settings.actions.scrobble.confirm'),
+						onPress: (value) => resolve(value?.trim() || null),
+					},
+				],
+				type,
+				defaultValue,
+			)
+		})
+
+	const handleTest = async () => {
+		try {
+			const username = await testScrobbler()
+			Alert.alert(i18n.t('settings.actions.scrobble.testSuccess'), username)
+		} catch (error) {
+			Alert.alert(i18n.t('settings.actions.scrobble.testFailed'), error.message)
+		}
+	}
+
+	const handleSetEndpoint = async () => {
+		const baseUrl = await prompt(
+			i18n.t('settings.actions.scrobble.endpoint'),
+			i18n.t('settings.actions.scrobble.endpointMessage'),
+			'plain-text',
+			config.baseUrl || defaultBaseUrls[config.type],
+		)
+		if (baseUrl !== null) {
+			setScrobblerConfig({
+				baseUrl: baseUrl === defaultBaseUrls[config.type] ? undefined : baseUrl,
+			})
+		}
+	}
+
+	const handleSetAccount = async () => {
+		if (config.type === 'listenbrainz') {
+			const token = await prompt(
+				i18n.t('settings.actions.scrobble.account'),
+				i18n.t('settings.actions.scrobble.token'),
+				'secure-text',
+			)
+			if (token) {
+				setScrobblerConfig({ token })
+				handleTest()
+			}
+			return
+		}
+		const apiKey = await prompt(
+			i18n.t('settings.actions.scrobble.account'),
+			'API Key',
+			'plain-text',
+			config.apiKey,
+		)
+		if (!apiKey) return
+		const apiSecret = await prompt(
+			i18n.t('settings.actions.scrobble.account'),
+			'API Secret',
+			'secure-text',
+			config.apiSecret,
+		)
+		if (!apiSecret) return
+		setScrobblerConfig({ apiKey, apiSecret })
+		Alert.prompt(
+			i18n.t('settings.actions.scrobble.account'),
+			i18n.t('settings.actions.scrobble.login'),
+			[
+				{ text: i18n.t('settings.actions.scrobble.cancel'), style: 'cancel' },
+				{
+					text: i18n.t('settings.actions.scrobble.confirm'),
+					onPress: async (value: any) => {
+						try {
+							const username = await loginLastfm(value?.login ?? '', value?.password ?? '')
+							Alert.alert(i18n.t('settings.actions.scrobble.testSuccess'), username)
+						} catch (error) {
+							logError('Last.fm 登录失败:', error)
+							Alert.alert(i18n.t('settings.actions.scrobble.testFailed'), error.message)
+						}
+					},
+				},
+			],
+			'login-password',
+			config.username,
+		)
+	}
+
+	const handlePressAction = (event: string) => {
+		switch (event) {
+			case 'off':
+				setScrobblerConfig({ enabled: false })
+				break
+			case 'lastfm':
+			case 'listenbrainz':
+				setScrobblerConfig({ enabled: true, type: event as ScrobblerType })
+				break
+			case 'endpoint':
+				handleSetEndpoint()
+				break
+			case 'account':
+				handleSetAccount()
+				break
+			case 'test':
+				handleTest()
+				break
+			case 'flush':
+				flushScrobbleQueue()
+				break
+		}
+	}
+
+	return (
+		<MenuView
+			onPressAction={({ nativeEvent: { event } }) => handlePressAction(event)}
+			actions={[
+				{
+					id: 'service',
+					title: i18n.t('settings.actions.scrobble.service'),
+					subactions: [
+						{
+							id: 'off',
+							title: i18n.t('settings.actions.scrobble.off'),
+							state: config.enabled ? 'off' : 'on',
+						},
+						{
+							id: 'lastfm',
+							title: 'Last.fm',
+							state: config.enabled && config.type === 'lastfm' ? 'on' : 'off',
+						},
+						{
+							id: 'listenbrainz',
+							title: 'ListenBrainz',
+							state: config.enabled && config.type === 'listenbrainz' ? 'on' : 'off',
+						},
+					],
+				},
+				{ id: 'endpoint', title: i18n.t('settings.actions.scrobble.endpoint') },
+				{ id: 'account', title: i18n.t('settings.actions.scrobble.account') },
+				{ id: 'test', title: i18n.t('settings.actions.scrobble.test') },
+				{
+					id: 'flush',
+					title: `${i18n.t('settings.actions.scrobble.flush')} (${queue.length})`,
+					subtitle: scrobbleError ?? undefined,
+				},
+			]}
+		>
+			<TouchableOpacity style={styles.menuTrigger}>
+				<Text style={styles.menuTriggerText}>
+					{!config.enabled
+						? '             ' + i18n.t('settings.actions.scrobble.off')
+						: config.type === 'lastfm'
+							? '             Last.fm'
+							: '             ListenBrainz'}
+				</Text>
+			</TouchableOpacity>
+		</MenuView>
+	)
 }
+
 const importMusicSourceFromUrl = async () => {
 	Alert.prompt(
 		'导入音源',
@@ -336,39 +652,14 @@ const importMusicSourceFromUrl = async () => {
 
 						logInfo('获取到的源代码:', utf8SourceCode)
 
-						// 这里需要添加处理源代码的逻辑，类似于 importMusicSourceFromFile 中的逻辑
-						// 例如：解析源代码，创建 MusicApi 对象，并添加到 myTrackPlayer
-						// 1. 创建模拟的 CommonJS 模块对象
-						const module: { exports: ModuleExports } = { exports: {} }
-
-						// 2. 创建模拟的 require 函数
-						const require = () => {} // 如果文件中有其他 require 调用，需要在这里实现
-
-						// 3. 将外部 JS 代码作为函数体执行
-						const moduleFunc = new Function('module', 'exports', 'require', utf8SourceCode)
-
-						// 4. 执行函数，填充 module.exports
-						moduleFunc(module, module.exports, require)
-						// const url = await module.exports.getMusicUrl('朵', '赵雷', '004IArbh3ytHgR', '128k')
-						// logInfo(url + '123123')
-						// 从模块导出创建 MusicApi 对象
-						const musicApi: IMusic.MusicApi = {
-							id: module.exports.id || '',
-							platform: 'tx', // 平台目前默认tx
-							author: module.exports.author || '',
-							name: module.exports.name || '',
-							version: module.exports.version || '',
-							srcUrl: module.exports.srcUrl || '',
-							script: utf8SourceCode, //
-							isSelected: false,
-							getMusicUrl: module.exports.getMusicUrl,
-						}
-
-						myTrackPlayer.addMusicApi(musicApi)
-						return
+						// 显示脚本信息，用户确认信任后才执行脚本，记录导入地址用于检查更新
+						await myTrackPlayer.importMusicApi(utf8SourceCode, { name: url, srcUrl: url })
 					} catch (error) {
 						logError('导入音源失败:', error)
-						Alert.alert('错误', '导入音源失败，请检查 URL 是否正确')
+						Alert.alert(
+							'错误',
+							error instanceof SandboxError ? error.message : '导入音源失败，请检查 URL 是否正确',
+						)
 					}
 				},
 			},
@@ -392,30 +683,16 @@ const importMusicSourceFromFile = async () => {
 		const fileUri = decodeURIComponent(result.assets[0].uri)
 		const fileContents = await RNFS.readFile(fileUri, 'utf8')
 		logInfo('File contents:', fileContents)
-		// 模拟 Node.js 的模块系统
-		const module: { exports: ModuleExports } = { exports: {} }
-		const require = () => {} // 如果文件中有其他 require 调用，你需要在这里实现
-		const moduleFunc = new Function('module', 'exports', 'require', fileContents)
-		moduleFunc(module, module.exports, require)
-		// const url = await module.exports.getMusicUrl('朵', '赵雷', '004IArbh3ytHgR', '128k')
-		// 从模块导出创建 MusicApi 对象
-		const musicApi: IMusic.MusicApi = {
-			id: module.exports.id || '',
-			platform: 'tx', // 平台目前默认tx
-			author: module.exports.author || '',
-			name: module.exports.name || '',
-			version: module.exports.version || '',
-			srcUrl: module.exports.srcUrl || '',
-			script: fileContents, //
-			isSelected: false,
-			getMusicUrl: module.exports.getMusicUrl,
-		}
-
-		myTrackPlayer.addMusicApi(musicApi)
-		return
+		// 显示脚本信息，用户确认信任后才执行脚本
+		await myTrackPlayer.importMusicApi(fileContents, { name: result.assets[0].name })
 	} catch (err) {
 		logError('Error importing music source:', err)
-		Alert.alert('导入失败', '无法导入音源，请查看日志，确保文件格式正确并稍后再试。')
+		Alert.alert(
+			'导入失败',
+			err instanceof SandboxError
+				? err.message
+				: '无法导入音源，请查看日志，确保文件格式正确并稍后再试。',
+		)
 		logError('导入音源失败' + err)
 	}
 }
@@ -425,10 +702,17 @@ const SettingModal = () => {
 	const [isQualitySelectorVisible, setIsQualitySelectorVisible] = useState(false)
 	const [isLoading, setIsLoading] = useState(false)
 	const apiState = nowApiState.useValue()
+	const selectedApi = musicApiSelectedStore.useValue()
 	const language = nowLanguage.useValue()
 	const autoCacheLocal = autoCacheLocalStore.useValue()
 	const isCachedIconVisible = isCachedIconVisibleStore.useValue()
 	const songsNumsToLoad = songsNumsToLoadStore.useValue()
+	const prefetchSeconds = prefetchSecondsStore.useValue()
+	const shuffleWeight = shuffleWeightStore.useValue()
+	const autoPlayWhenAppStart = Config.useConfig('setting.basic.autoPlayWhenAppStart') ?? false
+	const autoplayRadio = Config.useConfig('setting.basic.autoplayRadio') ?? false
+	const tryChangeSourceWhenPlayFail =
+		Config.useConfig('setting.basic.tryChangeSourceWhenPlayFail') ?? false
 	const settingsData = [
 		{
 			title: i18n.t('settings.sections.appInfo'),
@@ -439,6 +723,9 @@ const SettingModal = () => {
 				{ id: '5', title: i18n.t('settings.items.projectLink'), type: 'value', value: '' },
 				{ id: '9', title: i18n.t('settings.items.clearCache'), type: 'value', value: '' },
 				{ id: '13', title: i18n.t('settings.items.viewLogs'), type: 'link' },
+				{ id: '31', title: i18n.t('settings.items.networkInspector'), type: 'link' },
+				{ id: '21', title: i18n.t('settings.items.listeningStats'), type: 'link' },
+				{ id: '25', title: i18n.t('settings.items.dislikeList'), type: 'link' },
 				{
 					id: '15',
 					title: i18n.t('settings.items.changeLanguage'),
@@ -463,6 +750,22 @@ const SettingModal = () => {
 					title: i18n.t('settings.items.autoCacheLocal'),
 					type: 'value',
 				},
+				{ id: '19', title: i18n.t('settings.items.prefetchSeconds'), type: 'value', value: '' },
+				{ id: '22', title: i18n.t('settings.items.scrobble'), type: 'value', value: '' },
+				{ id: '23', title: i18n.t('settings.items.shuffleWeight'), type: 'value', value: '' },
+				{
+					id: '20',
+					title: i18n.t('settings.items.autoPlayWhenAppStart'),
+					type: 'value',
+					value: '',
+				},
+				{ id: '24', title: i18n.t('settings.items.autoplayRadio'), type: 'value', value: '' },
+				{
+					id: '26',
+					title: i18n.t('settings.items.tryChangeSourceWhenPlayFail'),
+					type: 'value',
+					value: '',
+				},
 			],
 		},
 		{
@@ -474,11 +777,16 @@ const SettingModal = () => {
 					title: i18n.t('settings.items.sourceStatus'),
 					type: 'value',
 					value:
-						apiState == '正常'
-							? i18n.t('settings.items.normal')
-							: i18n.t('settings.items.exception'),
+						apiState[selectedApi?.id]?.status === '异常'
+							? i18n.t('settings.items.exception')
+							: i18n.t('settings.items.normal'),
 				},
+				{ id: '18', title: i18n.t('settings.items.sourcePriority'), type: 'value', value: '' },
 				{ id: '12', title: i18n.t('settings.items.deleteSource'), type: 'value', value: '' },
+				{ id: '27', title: i18n.t('settings.items.sourceUpdate'), type: 'value', value: '' },
+				{ id: '28', title: i18n.t('settings.items.sourceHealth'), type: 'link' },
+				{ id: '29', title: i18n.t('settings.items.sourceVariables'), type: 'link' },
+				{ id: '30', title: i18n.t('settings.items.trustedKeys'), type: 'value', value: '' },
 				{ id: '8', title: i18n.t('settings.items.importSource'), type: 'value' },
 			],
 		},
@@ -497,11 +805,15 @@ const SettingModal = () => {
 					case 'url':
 						importMusicSourceFromUrl()
 						break
+					case 'catalog':
+						router.push('/(modals)/sourceCatalog')
+						break
 				}
 			}}
 			actions={[
 				{ id: 'file', title: i18n.t('settings.actions.import.fromFile') },
 				{ id: 'url', title: i18n.t('settings.actions.import.fromUrl') },
+				{ id: 'catalog', title: i18n.t('settings.actions.import.fromCatalog') },
 			]}
 		>
 			<TouchableOpacity style={styles.menuTrigger}>
@@ -580,6 +892,102 @@ const SettingModal = () => {
 			</TouchableOpacity>
 		</MenuView>
 	)
+	const togglePrefetchSecondsMenu = (
+		<MenuView
+			onPressAction={({ nativeEvent: { event } }) => {
+				myTrackPlayer.setPrefetchSeconds(parseInt(event))
+			}}
+			actions={[
+				{ id: '0', title: i18n.t('settings.actions.prefetchSeconds.off') },
+				{ id: '10', title: '10s' },
+				{ id: '15', title: '15s' },
+				{ id: '30', title: '30s' },
+			]}
+		>
+			<TouchableOpacity style={styles.menuTrigger}>
+				<Text style={styles.menuTriggerText}>
+					{prefetchSeconds > 0
+						? '             ' + prefetchSeconds + 's'
+						: '             ' + i18n.t('settings.actions.prefetchSeconds.off')}
+				</Text>
+			</TouchableOpacity>
+		</MenuView>
+	)
+	const toggleAutoPlayWhenAppStartMenu = (
+		<MenuView
+			onPressAction={({ nativeEvent: { event } }) => {
+				Config.set('setting.basic.autoPlayWhenAppStart', event === 'on')
+			}}
+			actions={[
+				{ id: 'on', title: i18n.t('settings.actions.autoPlayWhenAppStart.yes') },
+				{ id: 'off', title: i18n.t('settings.actions.autoPlayWhenAppStart.no') },
+			]}
+		>
+			<TouchableOpacity style={styles.menuTrigger}>
+				<Text style={styles.menuTriggerText}>
+					{autoPlayWhenAppStart
+						? '             ' + i18n.t('settings.actions.autoPlayWhenAppStart.yes')
+						: '             ' + i18n.t('settings.actions.autoPlayWhenAppStart.no')}
+				</Text>
+			</TouchableOpacity>
+		</MenuView>
+	)
+	const toggleAutoplayRadioMenu = (
+		<MenuView
+			onPressAction={({ nativeEvent: { event } }) => {
+				Config.set('setting.basic.autoplayRadio', event === 'on')
+			}}
+			actions={[
+				{ id: 'on', title: i18n.t('settings.actions.autoplayRadio.yes') },
+				{ id: 'off', title: i18n.t('settings.actions.autoplayRadio.no') },
+			]}
+		>
+			<TouchableOpacity style={styles.menuTrigger}>
+				<Text style={styles.menuTriggerText}>
+					{autoplayRadio
+						? '             ' + i18n.t('settings.actions.autoplayRadio.yes')
+						: '             ' + i18n.t('settings.actions.autoplayRadio.no')}
+				</Text>
+			</TouchableOpacity>
+		</MenuView>
+	)
+	const toggleTryChangeSourceMenu = (
+		<MenuView
+			onPressAction={({ nativeEvent: { event } }) => {
+				Config.set('setting.basic.tryChangeSourceWhenPlayFail', event === 'on')
+			}}
+			actions={[
+				{ id: 'on', title: i18n.t('settings.actions.tryChangeSourceWhenPlayFail.yes') },
+				{ id: 'off', title: i18n.t('settings.actions.tryChangeSourceWhenPlayFail.no') },
+			]}
+		>
+			<TouchableOpacity style={styles.menuTrigger}>
+				<Text style={styles.menuTriggerText}>
+					{tryChangeSourceWhenPlayFail
+						? '             ' + i18n.t('settings.actions.tryChangeSourceWhenPlayFail.yes')
+						: '             ' + i18n.t('settings.actions.tryChangeSourceWhenPlayFail.no')}
+				</Text>
+			</TouchableOpacity>
+		</MenuView>
+	)
+	const toggleShuffleWeightMenu = (
+		<MenuView
+			onPressAction={({ nativeEvent: { event } }) => {
+				myTrackPlayer.setShuffleWeight(event as ShuffleWeight)
+			}}
+			actions={[
+				{ id: 'none', title: i18n.t('settings.actions.shuffleWeight.none') },
+				{ id: 'favorite', title: i18n.t('settings.actions.shuffleWeight.favorite') },
+				{ id: 'playCount', title: i18n.t('settings.actions.shuffleWeight.playCount') },
+			]}
+		>
+			<TouchableOpacity style={styles.menuTrigger}>
+				<Text style={styles.menuTriggerText}>
+					{'             ' + i18n.t(`settings.actions.shuffleWeight.${shuffleWeight}`)}
+				</Text>
+			</TouchableOpacity>
+		</MenuView>
+	)
 	const DismissPlayerSymbol = () => {
 		const { top } = useSafeAreaInsets()
 		return (
@@ -699,6 +1107,21 @@ const SettingModal = () => {
 					if (item.title === i18n.t('settings.items.viewLogs')) {
 						router.push('/(modals)/logScreen')
 					}
+					if (item.title === i18n.t('settings.items.networkInspector')) {
+						router.push('/(modals)/networkInspector')
+					}
+					if (item.title === i18n.t('settings.items.listeningStats')) {
+						router.push('/(modals)/listeningStats')
+					}
+					if (item.title === i18n.t('settings.items.dislikeList')) {
+						router.push('/(modals)/dislikeList')
+					}
+					if (item.title === i18n.t('settings.items.sourceHealth')) {
+						router.push('/(modals)/sourceHealth')
+					}
+					if (item.title === i18n.t('settings.items.sourceVariables')) {
+						router.push('/(modals)/sourceVariables')
+					}
 					if (item.title === i18n.t('settings.items.projectLink')) {
 						Linking.openURL('https://github.com/gyc-12/Cymusic').catch((err) =>
 							logError("Couldn't load page", err),
@@ -752,6 +1175,9 @@ const SettingModal = () => {
 					{item.title === i18n.t('settings.items.deleteSource') && (
 						<MusicSourceMenu isDelete={true} onSelectSource={handleDeleteSource} />
 					)}
+					{item.title === i18n.t('settings.items.sourcePriority') && <MusicSourcePriorityMenu />}
+					{item.title === i18n.t('settings.items.sourceUpdate') && <MusicSourceUpdateMenu />}
+					{item.title === i18n.t('settings.items.trustedKeys') && <TrustedKeysMenu />}
 					{item.title === i18n.t('settings.items.importSource') && importMusicSourceMenu}
 					{(item.type === 'link' || item.title === i18n.t('settings.items.projectLink')) &&
 						!item.icon && <Text style={styles.arrowRight}>{'>'}</Text>}
@@ -760,6 +1186,14 @@ const SettingModal = () => {
 					{item.title === i18n.t('settings.items.isCachedIconVisible') &&
 						toggleIsCachedIconVisibleMenu}
 					{item.title === i18n.t('settings.items.songsNumsToLoad') && toggleSongsNumsToLoadMenu}
+					{item.title === i18n.t('settings.items.prefetchSeconds') && togglePrefetchSecondsMenu}
+					{item.title === i18n.t('settings.items.scrobble') && <ScrobblerMenu />}
+					{item.title === i18n.t('settings.items.shuffleWeight') && toggleShuffleWeightMenu}
+					{item.title === i18n.t('settings.items.autoPlayWhenAppStart') &&
+						toggleAutoPlayWhenAppStartMenu}
+					{item.title === i18n.t('settings.items.autoplayRadio') && toggleAutoplayRadioMenu}
+					{item.title === i18n.t('settings.items.tryChangeSourceWhenPlayFail') &&
+						toggleTryChangeSourceMenu}
 				</View>
 			</TouchableOpacity>
 			{index !== sectionData.length - 1 && <View style={styles.separator} />}
@@ -1,5 +1,6 @@
 import { colors } from '@/constants/tokens'
-import { logInfo } from '@/helpers/logger'
+import { SandboxError } from '@/helpers/errors/MusicError'
+import { logError, logInfo } from '@/helpers/logger'
 import myTrackPlayer from '@/helpers/trackPlayerIndex'
 import * as FileSystem from 'expo-file-system'
 import { router } from 'expo-router'
@@ -7,19 +8,7 @@ import { useShareIntentContext } from 'expo-share-intent'
 import React, { useState } from 'react'
 import { Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
-interface ModuleExports {
-	id?: string
-	author?: string
-	name?: string
-	version?: string
-	srcUrl?: string
-	getMusicUrl?: (
-		songname: string,
-		artist: string,
-		songmid: string,
-		quality: string,
-	) => Promise<string>
-}
+
 const ShareIntent = () => {
 	const { hasShareIntent, shareIntent, error, resetShareIntent } = useShareIntentContext()
 	const [importing, setImporting] = useState(false)
@@ -34,6 +23,13 @@ const ShareIntent = () => {
 		try {
 			const file = shareIntent.files[0]
 			const fileContents = await FileSystem.readAsStringAsync(file.path)
+			logInfo('File contents:', fileContents)
+
+			// 显示脚本信息，用户确认信任后才执行脚本并导入
+			if (!(await myTrackPlayer.importMusicApi(fileContents, { name: file.fileName }))) {
+				resetShareIntent()
+				return
+			}
 
 			// Save the file to your app's documents directory
 			const documentsDir = FileSystem.documentDirectory
@@ -42,32 +38,12 @@ const ShareIntent = () => {
 			// Ensure directory exists
 			await FileSystem.makeDirectoryAsync(documentsDir + 'music-sources/', { intermediates: true })
 			await FileSystem.writeAsStringAsync(newPath, fileContents)
-			logInfo('File contents:', fileContents)
-			// 模拟 Node.js 的模块系统
-			const module: { exports: ModuleExports } = { exports: {} }
-			const require = () => {} // 如果文件中有其他 require 调用，你需要在这里实现
-			const moduleFunc = new Function('module', 'exports', 'require', fileContents)
-			moduleFunc(module, module.exports, require)
-			// const url = await module.exports.getMusicUrl('朵', '赵雷', '004IArbh3ytHgR', '128k')
-			// 从模块导出创建 MusicApi 对象
-			const musicApi: IMusic.MusicApi = {
-				id: module.exports.id || '',
-				platform: 'tx', // 平台目前默认tx
-				author: module.exports.author || '',
-				name: module.exports.name || '',
-				version: module.exports.version || '',
-				srcUrl: module.exports.srcUrl || '',
-				script: fileContents, //
-				isSelected: false,
-				getMusicUrl: module.exports.getMusicUrl,
-			}
-
-			myTrackPlayer.addMusicApi(musicApi)
 			Alert.alert('导入成功', '音源文件已成功导入', [
 				{ text: '确定', onPress: () => resetShareIntent() },
 			])
 		} catch (error) {
-			Alert.alert('导入失败', '无法导入音源文件', [
+			logError('导入音源失败:', error)
+			Alert.alert('导入失败', error instanceof SandboxError ? error.message : '无法导入音源文件', [
 				{
 					text: '确定',
 					onPress: () => {
@@ -0,0 +1,8 @@
+import SourceCatalogScreen from '@/components/SourceCatalogScreen'
+import React from 'react'
+
+const SourceCatalogModal = () => {
+	return <SourceCatalogScreen />
+}
+
+export default SourceCatalogModal
@@ -0,0 +1,8 @@
+import SourceHealthScreen from '@/components/SourceHealthScreen'
+import React from 'react'
+
+const SourceHealthModal = () => {
+	return <SourceHealthScreen />
+}
+
+export default SourceHealthModal
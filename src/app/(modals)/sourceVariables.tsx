@@ -0,0 +1,8 @@
+import SourceVariablesScreen from '@/components/SourceVariablesScreen'
+import React from 'react'
+
+const SourceVariablesModal = () => {
+	return <SourceVariablesScreen />
+}
+
+export default SourceVariablesModal
@@ -0,0 +1,22 @@
+import TrackDetailScreen from '@/components/TrackDetailScreen'
+import { useLocalSearchParams } from 'expo-router'
+import React from 'react'
+
+const TrackDetailModal = () => {
+	const params = useLocalSearchParams()
+
+	const track: IMusic.IMusicItem = {
+		title: params.title as string,
+		album: params.album as string,
+		artwork: params.artwork as string,
+		artist: params.artist as string,
+		id: params.id as string,
+		url: (params.url as string) || 'Unknown',
+		platform: (params.platform as string) || 'tx',
+		duration: typeof params.duration === 'string' ? parseInt(params.duration, 10) : 0,
+	}
+
+	return <TrackDetailScreen track={track} />
+}
+
+export default TrackDetailModal
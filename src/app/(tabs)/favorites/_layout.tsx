@@ -1,10 +1,35 @@
 import AddPlayListButton from '@/components/AddPlayListButton'
 import { StackScreenWithSearchBar } from '@/constants/layout'
 import { colors } from '@/constants/tokens'
+import myTrackPlayer from '@/helpers/trackPlayerIndex'
 import { defaultStyles } from '@/styles'
 import i18n, { nowLanguage } from '@/utils/i18n'
+import { MaterialCommunityIcons } from '@expo/vector-icons'
 import { Stack } from 'expo-router'
-import { View } from 'react-native'
+import { Alert, View } from 'react-native'
+const ClearPlayHistoryButton = () => {
+	const handleClear = () => {
+		Alert.alert(i18n.t('playHistory.clearTitle'), i18n.t('playHistory.clearMessage'), [
+			{ text: i18n.t('playHistory.cancel'), style: 'cancel' },
+			{
+				text: i18n.t('playHistory.confirm'),
+				style: 'destructive',
+				onPress: () => myTrackPlayer.clearPlayHistory(),
+			},
+		])
+	}
+
+	return (
+		<MaterialCommunityIcons
+			name="delete-outline"
+			size={25}
+			onPress={handleClear}
+			color={colors.icon}
+			style={{ marginRight: 6 }}
+		/>
+	)
+}
+
 const FavoritesScreenLayout = () => {
 	const language = nowLanguage.useValue()
 	return (
@@ -51,6 +76,18 @@ const FavoritesScreenLayout = () => {
 						headerTintColor: colors.primary,
 					}}
 				/>
+				<Stack.Screen
+					name="playHistory"
+					options={{
+						headerTitle: '',
+						headerBackVisible: true,
+						headerStyle: {
+							backgroundColor: colors.background,
+						},
+						headerTintColor: colors.primary,
+						headerRight: () => <ClearPlayHistoryButton />,
+					}}
+				/>
 			</Stack>
 		</View>
 	)
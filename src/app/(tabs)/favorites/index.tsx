@@ -1,5 +1,6 @@
 import localImage from '@/assets/local.png'
 import { PlaylistsList } from '@/components/PlaylistsList'
+import { unknownTrackImageUri } from '@/constants/images'
 import { screenPadding } from '@/constants/tokens'
 import { playListsStore } from '@/helpers/trackPlayerIndex'
 import { Playlist } from '@/helpers/types'
@@ -35,8 +36,21 @@ const FavoritesScreen = () => {
 		coverImg: Image.resolveAssetSource(localImage).uri,
 		description: i18n.t('appTab.localOrCachedSongs'),
 	}
+	const historyPlayListItem = {
+		name: 'History',
+		id: 'history',
+		tracks: [],
+		title: i18n.t('appTab.playHistory'),
+		coverImg: unknownTrackImageUri,
+		description: i18n.t('appTab.playHistory'),
+	}
 	const storedPlayLists = playListsStore.useValue() || []
-	const playLists = [favoritePlayListItem, localPlayListItem, ...storedPlayLists]
+	const playLists = [
+		favoritePlayListItem,
+		localPlayListItem,
+		historyPlayListItem,
+		...storedPlayLists,
+	]
 
 	const filteredPlayLists = useMemo(() => {
 		if (!search) return playLists as Playlist[]
@@ -50,6 +64,8 @@ const FavoritesScreen = () => {
 			router.push(`/(tabs)/favorites/favoriteMusic`)
 		} else if (playlist.name == 'Local') {
 			router.push(`/(tabs)/favorites/localMusic`)
+		} else if (playlist.name == 'History') {
+			router.push(`/(tabs)/favorites/playHistory`)
 		} else {
 			router.push(`/(tabs)/favorites/${playlist.id}`)
 		}
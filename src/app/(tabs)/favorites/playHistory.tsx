@@ -0,0 +1,54 @@
+import { PlaylistTracksList } from '@/components/PlaylistTracksList'
+import { unknownTrackImageUri } from '@/constants/images'
+import { screenPadding } from '@/constants/tokens'
+import myTrackPlayer from '@/helpers/trackPlayerIndex'
+import { Playlist } from '@/helpers/types'
+import { defaultStyles } from '@/styles'
+import i18n from '@/utils/i18n'
+import React, { useMemo } from 'react'
+import { ScrollView, View } from 'react-native'
+import { Track } from 'react-native-track-player'
+
+const PlayHistoryScreen = () => {
+	const playHistory = myTrackPlayer.usePlayHistory()
+
+	// 同一首歌只显示最近的一次
+	const historyTracks = useMemo(() => {
+		const playedIds = new Set<string>()
+		return playHistory
+			.filter((item) => {
+				if (playedIds.has(item.musicItem.id)) {
+					return false
+				}
+				playedIds.add(item.musicItem.id)
+				return true
+			})
+			.map((item) => item.musicItem)
+	}, [playHistory])
+
+	const playListItem = {
+		name: 'History',
+		id: 'history',
+		tracks: [],
+		title: i18n.t('appTab.playHistory'),
+		coverImg: historyTracks[0]?.artwork || unknownTrackImageUri,
+		description: i18n.t('appTab.playHistory'),
+	}
+
+	return (
+		<View style={defaultStyles.container}>
+			<ScrollView
+				contentInsetAdjustmentBehavior="automatic"
+				style={{ paddingHorizontal: screenPadding.horizontal }}
+			>
+				<PlaylistTracksList
+					playlist={playListItem as Playlist}
+					tracks={historyTracks as Track[]}
+					allowDelete={true}
+					onDeleteTrack={myTrackPlayer.removePlayHistory}
+				/>
+			</ScrollView>
+		</View>
+	)
+}
+export default PlayHistoryScreen
@@ -208,6 +208,118 @@ const RootNavigation = () => {
 					},
 				}}
 			/>
+			<Stack.Screen
+				name="(modals)/sourceCatalog"
+				options={{
+					presentation: 'modal',
+					headerShown: true,
+					gestureEnabled: true,
+					gestureDirection: 'vertical',
+					headerTitle: '音源目录',
+					headerStyle: {
+						backgroundColor: colors.background,
+					},
+					headerTitleStyle: {
+						color: colors.text,
+					},
+				}}
+			/>
+			<Stack.Screen
+				name="(modals)/networkInspector"
+				options={{
+					presentation: 'modal',
+					headerShown: true,
+					gestureEnabled: true,
+					gestureDirection: 'vertical',
+					headerTitle: '网络请求',
+					headerStyle: {
+						backgroundColor: colors.background,
+					},
+					headerTitleStyle: {
+						color: colors.text,
+					},
+				}}
+			/>
+			<Stack.Screen
+				name="(modals)/listeningStats"
+				options={{
+					presentation: 'modal',
+					headerShown: true,
+					gestureEnabled: true,
+					gestureDirection: 'vertical',
+					headerTitle: '收听统计',
+					headerStyle: {
+						backgroundColor: colors.background,
+					},
+					headerTitleStyle: {
+						color: colors.text,
+					},
+				}}
+			/>
+			<Stack.Screen
+				name="(modals)/dislikeList"
+				options={{
+					presentation: 'modal',
+					headerShown: true,
+					gestureEnabled: true,
+					gestureDirection: 'vertical',
+					headerTitle: '不喜欢的歌曲',
+					headerStyle: {
+						backgroundColor: colors.background,
+					},
+					headerTitleStyle: {
+						color: colors.text,
+					},
+				}}
+			/>
+			<Stack.Screen
+				name="(modals)/sourceHealth"
+				options={{
+					presentation: 'modal',
+					headerShown: true,
+					gestureEnabled: true,
+					gestureDirection: 'vertical',
+					headerTitle: '音源健康状况',
+					headerStyle: {
+						backgroundColor: colors.background,
+					},
+					headerTitleStyle: {
+						color: colors.text,
+					},
+				}}
+			/>
+			<Stack.Screen
+				name="(modals)/sourceVariables"
+				options={{
+					presentation: 'modal',
+					headerShown: true,
+					gestureEnabled: true,
+					gestureDirection: 'vertical',
+					headerTitle: '音源设置',
+					headerStyle: {
+						backgroundColor: colors.background,
+					},
+					headerTitleStyle: {
+						color: colors.text,
+					},
+				}}
+			/>
+			<Stack.Screen
+				name="(modals)/trackDetail"
+				options={{
+					presentation: 'modal',
+					headerShown: true,
+					gestureEnabled: true,
+					gestureDirection: 'vertical',
+					headerTitle: '歌曲详情',
+					headerStyle: {
+						backgroundColor: colors.background,
+					},
+					headerTitleStyle: {
+						color: colors.text,
+					},
+				}}
+			/>
 		</Stack>
 	)
 }
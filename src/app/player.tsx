@@ -7,7 +7,7 @@ import { PlayerVolumeBar } from '@/components/PlayerVolumeBar'
 import { ShowPlayerListToggle } from '@/components/ShowPlayerListToggle'
 import { unknownTrackImageUri } from '@/constants/images'
 import { colors, fontSize, screenPadding } from '@/constants/tokens'
-import myTrackPlayer, { nowLyricState } from '@/helpers/trackPlayerIndex'
+import myTrackPlayer, { nowLyricState, playbackRateStore } from '@/helpers/trackPlayerIndex'
 import { getSingerMidBySingerName } from '@/helpers/userApi/getMusicSource'
 import { usePlayerBackground } from '@/hooks/usePlayerBackground'
 import { useTrackPlayerFavorite } from '@/hooks/useTrackPlayerFavorite'
@@ -15,7 +15,14 @@ import PersistStatus from '@/store/PersistStatus'
 import usePlayerStore from '@/store/usePlayerStore'
 import { defaultStyles } from '@/styles'
 import i18n from '@/utils/i18n'
-import { setTimingClose } from '@/utils/timingClose'
+import formatTime from '@/utils/timeformat'
+import {
+	setTimingClose,
+	setTimingCloseAfterTracks,
+	setTimingCloseAtQueueEnd,
+	setTimingCloseFadeSeconds,
+	useTimingClose,
+} from '@/utils/timingClose'
 import { Entypo, MaterialCommunityIcons } from '@expo/vector-icons'
 import { MenuView } from '@react-native-menu/menu'
 import { activateKeepAwakeAsync, deactivateKeepAwake } from 'expo-keep-awake'
@@ -41,6 +48,8 @@ import Animated, {
 } from 'react-native-reanimated'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { useActiveTrack, usePlaybackState, useProgress } from 'react-native-track-player'
+const playbackRates = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3]
+
 const PlayerScreen = () => {
 	const { top, bottom } = useSafeAreaInsets()
 	const { isFavorite, toggleFavorite } = useTrackPlayerFavorite()
@@ -252,6 +261,30 @@ const PlayerScreen = () => {
 	const handleTimingClose = (minutes: number) => {
 		setTimingClose(Date.now() + minutes * 60 * 1000)
 	}
+	const playbackRate = playbackRateStore.useValue()
+	const abLoop = myTrackPlayer.useABLoop()
+	const timingClose = useTimingClose()
+	const timingCloseFadeSeconds = PersistStatus.useValue('music.timingCloseFadeSeconds', 0) ?? 0
+	const getTimingCloseStatus = () => {
+		switch (timingClose?.mode) {
+			case 'time':
+				return timingClose.countDown !== null ? formatTime(timingClose.countDown) : ''
+			case 'tracks':
+				return i18n.t('player.remainingTracks', { count: timingClose.remainingTracks })
+			case 'queueEnd':
+				return i18n.t('player.closeAtQueueEnd')
+			default:
+				return ''
+		}
+	}
+	const timingCloseStatus = getTimingCloseStatus()
+	const handleRememberRate = (scope: 'track' | 'platform') => {
+		if (playbackRate.scope === scope) {
+			myTrackPlayer.clearPlaybackRate(scope)
+		} else {
+			myTrackPlayer.setPlaybackRate(playbackRate.rate, scope)
+		}
+	}
 	const menuActions = [
 		{
 			id: 'favorite',
@@ -264,9 +297,40 @@ const PlayerScreen = () => {
 		{ id: 'playlist', title: i18n.t('player.addToPlaylist'), image: 'plus.circle' },
 
 		{ id: 'share', title: i18n.t('player.share'), image: 'square.and.arrow.up' },
+		{
+			id: 'rate',
+			title: `${i18n.t('player.playbackRate')} (${playbackRate.rate}x)`,
+			image: 'speedometer',
+			subactions: [
+				...playbackRates.map((rate) => ({
+					id: `rate_${rate}`,
+					title: `${rate}x`,
+					state: playbackRate.rate === rate ? ('on' as const) : ('off' as const),
+				})),
+				{
+					id: 'rate_track',
+					title: i18n.t('player.rememberTrackRate'),
+					state: playbackRate.scope === 'track' ? ('on' as const) : ('off' as const),
+				},
+				{
+					id: 'rate_platform',
+					title: i18n.t('player.rememberPlatformRate'),
+					state: playbackRate.scope === 'platform' ? ('on' as const) : ('off' as const),
+				},
+			],
+		},
+		{
+			id: 'abLoop',
+			title: !abLoop
+				? i18n.t('player.abLoopSetA')
+				: abLoop.end === undefined
+					? `${i18n.t('player.abLoopSetB')} (A: ${formatTime(abLoop.start)})`
+					: `${i18n.t('player.abLoopCancel')} (${formatTime(abLoop.start)} - ${formatTime(abLoop.end)})`,
+			image: 'repeat',
+		},
 		{
 			id: 'timing',
-			title: i18n.t('player.closeAfter'),
+			title: i18n.t('player.closeAfter') + (timingCloseStatus ? ` (${timingCloseStatus})` : ''),
 			image: 'timer',
 			subactions: [
 				{ id: 'timing_10', title: '10 ' + i18n.t('player.minutes') },
@@ -274,6 +338,27 @@ const PlayerScreen = () => {
 				{ id: 'timing_20', title: '20 ' + i18n.t('player.minutes') },
 				{ id: 'timing_30', title: '30 ' + i18n.t('player.minutes') },
 				{ id: 'timing_cus', title: i18n.t('player.custom') },
+				{ id: 'timing_track', title: i18n.t('player.closeAfterTrack') },
+				{ id: 'timing_tracks', title: i18n.t('player.closeAfterTracks') },
+				{ id: 'timing_queue', title: i18n.t('player.closeAtQueueEnd') },
+				{
+					id: 'timing_fade',
+					title: i18n.t('player.fadeOut'),
+					subactions: [0, 10, 30, 60].map((seconds) => ({
+						id: `timing_fade_${seconds}`,
+						title: seconds ? `${seconds} ${i18n.t('player.seconds')}` : i18n.t('player.fadeOff'),
+						state: timingCloseFadeSeconds === seconds ? ('on' as const) : ('off' as const),
+					})),
+				},
+				...(timingClose
+					? [
+							{
+								id: 'timing_cancel',
+								title: i18n.t('player.cancelTimingClose'),
+								attributes: { destructive: true },
+							},
+						]
+					: []),
 			],
 		},
 	]
@@ -334,6 +419,29 @@ const PlayerScreen = () => {
 			'plain-text',
 		)
 	}
+	function setTracksTimingClose() {
+		Alert.prompt(
+			i18n.t('player.setTimingClose'),
+			i18n.t('player.inputTracks'),
+			[
+				{
+					text: i18n.t('player.cancel'),
+					style: 'cancel',
+				},
+				{
+					text: i18n.t('player.confirm'),
+					onPress: (count) => {
+						if (count && Number.isInteger(Number(count)) && Number(count) > 0) {
+							setTimingCloseAfterTracks(Number(count))
+						} else {
+							Alert.alert(i18n.t('player.error.title'), i18n.t('player.error.tracksErrorMessage'))
+						}
+					},
+				},
+			],
+			'plain-text',
+		)
+	}
 
 	return (
 		<LinearGradient
@@ -450,6 +558,37 @@ const PlayerScreen = () => {
 													case 'timing_cus':
 														setCustomTimingClose(null)
 														break
+													case 'timing_track':
+														setTimingCloseAfterTracks(1)
+														break
+													case 'timing_tracks':
+														setTracksTimingClose()
+														break
+													case 'timing_queue':
+														setTimingCloseAtQueueEnd()
+														break
+													case 'timing_cancel':
+														setTimingClose(null)
+														break
+													case 'abLoop':
+														myTrackPlayer.toggleABLoop()
+														break
+													case 'rate_track':
+													case 'rate_platform':
+														handleRememberRate(
+															nativeEvent.event === 'rate_track' ? 'track' : 'platform',
+														)
+														break
+													default:
+														if (nativeEvent.event.startsWith('rate_')) {
+															myTrackPlayer.setPlaybackRate(
+																Number(nativeEvent.event.replace('rate_', '')),
+															)
+														} else if (nativeEvent.event.startsWith('timing_fade_')) {
+															setTimingCloseFadeSeconds(
+																Number(nativeEvent.event.replace('timing_fade_', '')),
+															)
+														}
 												}
 											}}
 											actions={menuActions}
@@ -0,0 +1,93 @@
+import { colors, fontSize, screenPadding } from '@/constants/tokens'
+import { getDislikeRules, setDislikeRules } from '@/store/dislikeList'
+import i18n from '@/utils/i18n'
+import { showToast } from '@/utils/utils'
+import React, { useState } from 'react'
+import { SafeAreaView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native'
+
+const DislikeListScreen = () => {
+	const [rules, setRules] = useState(getDislikeRules)
+
+	const handleSave = () => {
+		setDislikeRules(rules)
+		// 显示整理后的规则(去掉空行和重复的)
+		setRules(getDislikeRules())
+		showToast(i18n.t('dislikeList.saved'))
+	}
+
+	const ruleCount = rules.split('\n').filter((line) => line.trim()).length
+
+	return (
+		<SafeAreaView style={styles.safeArea}>
+			<View style={styles.container}>
+				<Text style={styles.description}>{i18n.t('dislikeList.description')}</Text>
+				<TextInput
+					style={styles.input}
+					value={rules}
+					onChangeText={setRules}
+					placeholder={i18n.t('dislikeList.placeholder')}
+					placeholderTextColor={colors.textMuted}
+					multiline
+					autoCapitalize="none"
+					autoCorrect={false}
+					textAlignVertical="top"
+				/>
+				<View style={styles.footer}>
+					<Text style={styles.count}>{i18n.t('dislikeList.count', { count: ruleCount })}</Text>
+					<TouchableOpacity style={styles.button} onPress={handleSave}>
+						<Text style={styles.buttonText}>{i18n.t('dislikeList.save')}</Text>
+					</TouchableOpacity>
+				</View>
+			</View>
+		</SafeAreaView>
+	)
+}
+
+const styles = StyleSheet.create({
+	safeArea: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	container: {
+		flex: 1,
+		paddingHorizontal: screenPadding.horizontal,
+		paddingVertical: 16,
+	},
+	description: {
+		fontSize: fontSize.xs,
+		color: colors.textMuted,
+		marginBottom: 12,
+		lineHeight: 18,
+	},
+	input: {
+		flex: 1,
+		padding: 10,
+		borderRadius: 6,
+		backgroundColor: '#1e1e1e',
+		color: colors.text,
+		fontSize: fontSize.sm,
+	},
+	footer: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+		marginTop: 16,
+	},
+	count: {
+		fontSize: fontSize.xs,
+		color: colors.textMuted,
+	},
+	button: {
+		paddingHorizontal: 20,
+		paddingVertical: 10,
+		borderRadius: 8,
+		backgroundColor: colors.primary,
+	},
+	buttonText: {
+		fontSize: fontSize.sm,
+		color: colors.text,
+		fontWeight: '600',
+	},
+})
+
+export default DislikeListScreen
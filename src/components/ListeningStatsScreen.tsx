@@ -0,0 +1,263 @@
+import { colors, fontSize, screenPadding } from '@/constants/tokens'
+import { logError } from '@/helpers/logger'
+import {
+	clearListeningStats,
+	exportListeningStats,
+	getListeningStats,
+	IListeningStatsGroup,
+	ListeningStatsRange,
+	useListeningStatsVersion,
+} from '@/store/listeningStats'
+import i18n from '@/utils/i18n'
+import formatTime from '@/utils/timeformat'
+import { Ionicons } from '@expo/vector-icons'
+import { MenuView } from '@react-native-menu/menu'
+import React, { useState } from 'react'
+import {
+	Alert,
+	SafeAreaView,
+	ScrollView,
+	Share,
+	StyleSheet,
+	Text,
+	TouchableOpacity,
+	View,
+} from 'react-native'
+
+const ranges: ListeningStatsRange[] = ['week', 'month', 'year', 'all']
+
+const RankList = ({ title, items }: { title: string; items: IListeningStatsGroup[] }) => (
+	<View style={styles.section}>
+		<Text style={styles.sectionTitle}>{title}</Text>
+		{items.length === 0 ? (
+			<Text style={styles.emptyText}>{i18n.t('listeningStats.empty')}</Text>
+		) : (
+			items.map((item, index) => (
+				<View key={`${item.name}-${index}`} style={styles.rankItem}>
+					<Text style={styles.rankIndex}>{index + 1}</Text>
+					<Text numberOfLines={1} style={styles.rankName}>
+						{item.name}
+					</Text>
+					<Text style={styles.rankValue}>
+						{i18n.t('listeningStats.plays', { count: item.playCount })}
+					</Text>
+				</View>
+			))
+		)}
+	</View>
+)
+
+const ListeningStatsScreen = () => {
+	const [range, setRange] = useState<ListeningStatsRange>('week')
+	// 统计更新时重新渲染
+	useListeningStatsVersion()
+	const stats = getListeningStats(range)
+
+	const handleExport = async (format: 'csv' | 'json') => {
+		try {
+			await Share.share({
+				message: exportListeningStats(range, format),
+			})
+		} catch (error) {
+			logError(i18n.t('listeningStats.exportError'), error)
+		}
+	}
+
+	const handleClear = () => {
+		Alert.alert(i18n.t('listeningStats.clearTitle'), i18n.t('listeningStats.clearMessage'), [
+			{ text: i18n.t('listeningStats.cancel'), style: 'cancel' },
+			{
+				text: i18n.t('listeningStats.confirm'),
+				style: 'destructive',
+				onPress: clearListeningStats,
+			},
+		])
+	}
+
+	return (
+		<SafeAreaView style={styles.safeArea}>
+			<View style={styles.container}>
+				<View style={styles.header}>
+					<Text style={styles.title}>{i18n.t('listeningStats.title')}</Text>
+					<View style={styles.headerButtons}>
+						<MenuView
+							onPressAction={({ nativeEvent: { event } }) => handleExport(event as 'csv' | 'json')}
+							actions={[
+								{ id: 'csv', title: 'CSV' },
+								{ id: 'json', title: 'JSON' },
+							]}
+						>
+							<TouchableOpacity style={styles.iconButton}>
+								<Ionicons name="share-social-outline" size={20} color={colors.text} />
+								<Text style={styles.buttonText}>{i18n.t('listeningStats.actions.export')}</Text>
+							</TouchableOpacity>
+						</MenuView>
+						<TouchableOpacity onPress={handleClear} style={styles.iconButton}>
+							<Ionicons name="trash-outline" size={20} color={colors.text} />
+							<Text style={styles.buttonText}>{i18n.t('listeningStats.actions.clear')}</Text>
+						</TouchableOpacity>
+					</View>
+				</View>
+				<View style={styles.rangeSelector}>
+					{ranges.map((item) => (
+						<TouchableOpacity
+							key={item}
+							onPress={() => setRange(item)}
+							style={[styles.rangeButton, item === range && styles.rangeButtonActive]}
+						>
+							<Text style={[styles.rangeText, item === range && styles.rangeTextActive]}>
+								{i18n.t(`listeningStats.ranges.${item}`)}
+							</Text>
+						</TouchableOpacity>
+					))}
+				</View>
+				<ScrollView style={styles.scrollView}>
+					<View style={styles.summary}>
+						<View style={styles.summaryItem}>
+							<Text style={styles.summaryValue}>{stats.playCount}</Text>
+							<Text style={styles.summaryLabel}>{i18n.t('listeningStats.playCount')}</Text>
+						</View>
+						<View style={styles.summaryItem}>
+							<Text style={styles.summaryValue}>{formatTime(stats.listenedDuration)}</Text>
+							<Text style={styles.summaryLabel}>{i18n.t('listeningStats.listenedDuration')}</Text>
+						</View>
+						<View style={styles.summaryItem}>
+							<Text style={styles.summaryValue}>{`${Math.round(stats.skipRate * 100)}%`}</Text>
+							<Text style={styles.summaryLabel}>{i18n.t('listeningStats.skipRate')}</Text>
+						</View>
+					</View>
+					<RankList
+						title={i18n.t('listeningStats.topTracks')}
+						items={stats.topTracks.map((track) => ({
+							name: `${track.title} - ${track.artist}`,
+							playCount: track.playCount,
+							listenedDuration: track.listenedDuration,
+						}))}
+					/>
+					<RankList title={i18n.t('listeningStats.topArtists')} items={stats.topArtists} />
+					<RankList title={i18n.t('listeningStats.topAlbums')} items={stats.topAlbums} />
+				</ScrollView>
+			</View>
+		</SafeAreaView>
+	)
+}
+
+const styles = StyleSheet.create({
+	safeArea: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	container: {
+		flex: 1,
+		backgroundColor: colors.background,
+		paddingHorizontal: screenPadding.horizontal,
+	},
+	header: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+		marginBottom: 16,
+		paddingVertical: 8,
+	},
+	title: {
+		fontSize: fontSize.lg,
+		fontWeight: '700',
+		color: colors.text,
+	},
+	headerButtons: {
+		flexDirection: 'row',
+	},
+	iconButton: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		marginLeft: 16,
+	},
+	buttonText: {
+		marginLeft: 4,
+		color: colors.text,
+		fontSize: fontSize.sm,
+	},
+	rangeSelector: {
+		flexDirection: 'row',
+		backgroundColor: '#1e1e1e',
+		borderRadius: 8,
+		padding: 2,
+		marginBottom: 16,
+	},
+	rangeButton: {
+		flex: 1,
+		paddingVertical: 6,
+		borderRadius: 6,
+		alignItems: 'center',
+	},
+	rangeButtonActive: {
+		backgroundColor: colors.primary,
+	},
+	rangeText: {
+		color: colors.textMuted,
+		fontSize: fontSize.sm,
+	},
+	rangeTextActive: {
+		color: colors.text,
+		fontWeight: '600',
+	},
+	scrollView: {
+		flex: 1,
+	},
+	summary: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		marginBottom: 24,
+	},
+	summaryItem: {
+		flex: 1,
+		alignItems: 'center',
+	},
+	summaryValue: {
+		fontSize: fontSize.lg,
+		fontWeight: '700',
+		color: colors.text,
+	},
+	summaryLabel: {
+		marginTop: 4,
+		fontSize: fontSize.sm,
+		color: colors.textMuted,
+	},
+	section: {
+		marginBottom: 24,
+	},
+	sectionTitle: {
+		fontSize: fontSize.base,
+		fontWeight: '700',
+		color: colors.text,
+		marginBottom: 8,
+	},
+	rankItem: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		paddingVertical: 8,
+		borderBottomWidth: 1,
+		borderBottomColor: '#333',
+	},
+	rankIndex: {
+		width: 28,
+		fontSize: fontSize.sm,
+		color: colors.textMuted,
+	},
+	rankName: {
+		flex: 1,
+		fontSize: fontSize.base,
+		color: colors.text,
+	},
+	rankValue: {
+		marginLeft: 8,
+		fontSize: fontSize.sm,
+		color: colors.textMuted,
+	},
+	emptyText: {
+		fontSize: fontSize.sm,
+		color: colors.textMuted,
+	},
+})
+
+export default ListeningStatsScreen
@@ -0,0 +1,368 @@
+import { colors, fontSize, screenPadding } from '@/constants/tokens'
+import { clearNetworkLogs, INetworkLogEntry, toCurl, useNetworkLogs } from '@/store/networkLog'
+import i18n from '@/utils/i18n'
+import { Ionicons } from '@expo/vector-icons'
+import React, { useState } from 'react'
+import {
+	Alert,
+	Clipboard,
+	FlatList,
+	Modal,
+	Pressable,
+	SafeAreaView,
+	ScrollView,
+	StyleSheet,
+	Text,
+	TouchableOpacity,
+	TouchableWithoutFeedback,
+	View,
+} from 'react-native'
+
+const padZero = (num: number) => (num < 10 ? `0${num}` : num)
+
+const formatTime = (time: number) => {
+	const date = new Date(time)
+	return `${padZero(date.getHours())}:${padZero(date.getMinutes())}:${padZero(date.getSeconds())}`
+}
+
+const getStatusColor = (entry: INetworkLogEntry) => {
+	if (entry.error || (entry.status ?? 0) >= 400) {
+		return colors.primary
+	}
+	if (entry.status === undefined) {
+		return colors.textMuted
+	}
+	return '#00FF00'
+}
+
+const getStatusText = (entry: INetworkLogEntry) => {
+	if (entry.error) {
+		return i18n.t('networkInspector.failed')
+	}
+	if (entry.status === undefined) {
+		return i18n.t('networkInspector.pending')
+	}
+	return String(entry.status)
+}
+
+const DetailSection = ({ title, content }: { title: string; content?: string }) =>
+	content ? (
+		<View style={styles.detailSection}>
+			<Text style={styles.detailTitle}>{title}</Text>
+			<Text selectable style={styles.detailContent}>
+				{content}
+			</Text>
+		</View>
+	) : null
+
+const NetworkInspectorScreen = () => {
+	const logs = useNetworkLogs()
+	const [sourceFilter, setSourceFilter] = useState<string | null>(null)
+	const [selectedEntry, setSelectedEntry] = useState<INetworkLogEntry | null>(null)
+
+	const sources = [...new Set(logs.map((entry) => entry.source))]
+	// 最新的请求排在最前
+	const filteredLogs = logs
+		.filter((entry) => sourceFilter === null || entry.source === sourceFilter)
+		.reverse()
+	// 列表中的记录更新后，详情也显示最新的内容
+	const detailEntry = selectedEntry
+		? logs.find((entry) => entry.id === selectedEntry.id) ?? selectedEntry
+		: null
+
+	const handleCopyCurl = (entry: INetworkLogEntry) => {
+		Clipboard.setString(toCurl(entry))
+		Alert.alert(i18n.t('networkInspector.copied'), i18n.t('networkInspector.copiedMessage'))
+	}
+
+	const renderItem = ({ item }: { item: INetworkLogEntry }) => (
+		<Pressable
+			onPress={() => setSelectedEntry(item)}
+			onLongPress={() => handleCopyCurl(item)}
+			style={({ pressed }) => [styles.logItem, pressed && styles.pressed]}
+		>
+			<View style={styles.logHeader}>
+				<Text style={styles.method}>{item.method}</Text>
+				<Text style={[styles.status, { color: getStatusColor(item) }]}>{getStatusText(item)}</Text>
+				<Text style={styles.meta}>
+					{item.duration === undefined ? '' : `${item.duration}ms  `}
+					{formatTime(item.time)}
+				</Text>
+			</View>
+			<Text numberOfLines={2} style={styles.url}>
+				{item.url}
+			</Text>
+			<Text style={styles.source}>{item.source}</Text>
+		</Pressable>
+	)
+
+	return (
+		<SafeAreaView style={styles.safeArea}>
+			<View style={styles.container}>
+				<View style={styles.header}>
+					<Text style={styles.title}>{i18n.t('networkInspector.title')}</Text>
+					<TouchableOpacity onPress={clearNetworkLogs} style={styles.iconButton}>
+						<Ionicons name="trash-outline" size={20} color={colors.text} />
+						<Text style={styles.buttonText}>{i18n.t('networkInspector.clear')}</Text>
+					</TouchableOpacity>
+				</View>
+				<ScrollView
+					horizontal
+					showsHorizontalScrollIndicator={false}
+					style={styles.filters}
+					contentContainerStyle={styles.filtersContent}
+				>
+					{[null, ...sources].map((source) => (
+						<TouchableOpacity
+							key={source ?? ''}
+							onPress={() => setSourceFilter(source)}
+							style={[styles.filterChip, sourceFilter === source && styles.filterChipActive]}
+						>
+							<Text style={styles.filterText}>{source ?? i18n.t('networkInspector.all')}</Text>
+						</TouchableOpacity>
+					))}
+				</ScrollView>
+				<FlatList
+					data={filteredLogs}
+					keyExtractor={(item) => item.id.toString()}
+					renderItem={renderItem}
+					ListEmptyComponent={
+						<Text style={styles.emptyText}>{i18n.t('networkInspector.empty')}</Text>
+					}
+					contentContainerStyle={filteredLogs.length === 0 && styles.emptyContainer}
+					style={styles.flatList}
+				/>
+				<Modal visible={detailEntry !== null} transparent animationType="slide">
+					<TouchableWithoutFeedback onPress={() => setSelectedEntry(null)}>
+						<View style={styles.modalOverlay} />
+					</TouchableWithoutFeedback>
+					<View style={styles.modalContainer}>
+						<ScrollView contentContainerStyle={styles.modalContent}>
+							{detailEntry && (
+								<View>
+									<View style={styles.modalHeader}>
+										<Text style={styles.modalTitle}>{i18n.t('networkInspector.details')}</Text>
+										<TouchableOpacity onPress={() => setSelectedEntry(null)}>
+											<Ionicons name="close" size={24} color={colors.text} />
+										</TouchableOpacity>
+									</View>
+									<Text selectable style={styles.modalUrl}>
+										{detailEntry.method} {detailEntry.url}
+									</Text>
+									<Text style={styles.meta}>
+										{detailEntry.source} · {new Date(detailEntry.time).toLocaleString()}
+										{detailEntry.duration === undefined ? '' : ` · ${detailEntry.duration}ms`}
+									</Text>
+									<Text style={[styles.modalStatus, { color: getStatusColor(detailEntry) }]}>
+										{getStatusText(detailEntry)}
+									</Text>
+									<DetailSection
+										title={i18n.t('networkInspector.error')}
+										content={detailEntry.error}
+									/>
+									<DetailSection
+										title={i18n.t('networkInspector.requestHeaders')}
+										content={
+											Object.keys(detailEntry.requestHeaders).length
+												? Object.entries(detailEntry.requestHeaders)
+														.map(([key, value]) => `${key}: ${value}`)
+														.join('\n')
+												: undefined
+										}
+									/>
+									<DetailSection
+										title={i18n.t('networkInspector.requestBody')}
+										content={detailEntry.requestBody}
+									/>
+									<DetailSection
+										title={i18n.t('networkInspector.responseBody')}
+										content={detailEntry.responseBody}
+									/>
+									<TouchableOpacity
+										style={styles.copyButton}
+										onPress={() => handleCopyCurl(detailEntry)}
+									>
+										<Text style={styles.copyButtonText}>{i18n.t('networkInspector.copyCurl')}</Text>
+									</TouchableOpacity>
+								</View>
+							)}
+						</ScrollView>
+					</View>
+				</Modal>
+			</View>
+		</SafeAreaView>
+	)
+}
+
+const styles = StyleSheet.create({
+	safeArea: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	container: {
+		flex: 1,
+		backgroundColor: colors.background,
+		paddingHorizontal: screenPadding.horizontal,
+	},
+	header: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+		marginBottom: 8,
+		paddingVertical: 8,
+	},
+	title: {
+		fontSize: fontSize.lg,
+		fontWeight: '700',
+		color: colors.text,
+	},
+	iconButton: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		marginLeft: 16,
+	},
+	buttonText: {
+		marginLeft: 4,
+		color: colors.text,
+		fontSize: fontSize.sm,
+	},
+	filters: {
+		flexGrow: 0,
+		marginBottom: 8,
+	},
+	filtersContent: {
+		paddingVertical: 4,
+	},
+	filterChip: {
+		paddingHorizontal: 12,
+		paddingVertical: 6,
+		borderRadius: 14,
+		backgroundColor: '#1e1e1e',
+		marginRight: 8,
+	},
+	filterChipActive: {
+		backgroundColor: colors.primary,
+	},
+	filterText: {
+		fontSize: fontSize.sm,
+		color: colors.text,
+	},
+	flatList: {
+		flex: 1,
+	},
+	logItem: {
+		paddingVertical: 12,
+		borderBottomWidth: 1,
+		borderBottomColor: '#333',
+	},
+	logHeader: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		marginBottom: 4,
+	},
+	method: {
+		fontSize: fontSize.sm,
+		fontWeight: '700',
+		color: colors.text,
+		marginRight: 8,
+	},
+	status: {
+		flex: 1,
+		fontSize: fontSize.sm,
+		fontWeight: '600',
+	},
+	meta: {
+		fontSize: fontSize.sm,
+		color: colors.textMuted,
+	},
+	url: {
+		fontSize: fontSize.sm,
+		color: colors.text,
+		fontFamily: 'monospace',
+	},
+	source: {
+		marginTop: 4,
+		fontSize: fontSize.xs,
+		color: colors.textMuted,
+	},
+	emptyContainer: {
+		flexGrow: 1,
+		justifyContent: 'center',
+		alignItems: 'center',
+	},
+	emptyText: {
+		fontSize: fontSize.base,
+		color: colors.textMuted,
+	},
+	modalOverlay: {
+		flex: 1,
+		backgroundColor: 'rgba(0,0,0,0.5)',
+		justifyContent: 'flex-end',
+	},
+	modalContainer: {
+		backgroundColor: '#1e1e1e',
+		borderTopLeftRadius: 20,
+		borderTopRightRadius: 20,
+		maxHeight: '80%',
+	},
+	modalContent: {
+		padding: 20,
+	},
+	modalHeader: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+		marginBottom: 8,
+	},
+	modalTitle: {
+		fontSize: fontSize.lg,
+		fontWeight: '700',
+		color: colors.text,
+	},
+	modalUrl: {
+		fontSize: fontSize.sm,
+		color: colors.text,
+		fontFamily: 'monospace',
+		marginBottom: 4,
+	},
+	modalStatus: {
+		fontSize: fontSize.sm,
+		fontWeight: '600',
+		marginVertical: 8,
+	},
+	detailSection: {
+		backgroundColor: '#2e2e2e',
+		padding: 10,
+		borderRadius: 8,
+		marginBottom: 12,
+	},
+	detailTitle: {
+		fontSize: fontSize.sm,
+		fontWeight: '600',
+		color: colors.text,
+		marginBottom: 4,
+	},
+	detailContent: {
+		fontSize: fontSize.sm,
+		color: colors.textMuted,
+		fontFamily: 'monospace',
+	},
+	copyButton: {
+		backgroundColor: colors.primary,
+		paddingVertical: 10,
+		borderRadius: 8,
+		alignItems: 'center',
+		marginTop: 4,
+	},
+	copyButtonText: {
+		color: colors.text,
+		fontSize: fontSize.base,
+		fontWeight: 'bold',
+	},
+	pressed: {
+		backgroundColor: 'rgba(0, 0, 0, 0.1)',
+		opacity: 0.5,
+	},
+})
+
+export default NetworkInspectorScreen
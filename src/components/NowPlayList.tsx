@@ -2,25 +2,35 @@ import { unknownTrackImageUri } from '@/constants/images'
 import { colors } from '@/constants/tokens'
 import myTrackPlayer from '@/helpers/trackPlayerIndex'
 import { utilsStyles } from '@/styles'
-import React, { useCallback, useEffect, useMemo, useRef } from 'react'
-import { FlatList, FlatListProps, StyleSheet, Text, View } from 'react-native'
+import i18n from '@/utils/i18n'
+import { showToast } from '@/utils/utils'
+import { Ionicons } from '@expo/vector-icons'
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import {
+	Alert,
+	FlatList,
+	FlatListProps,
+	LayoutChangeEvent,
+	StyleSheet,
+	Text,
+	TouchableOpacity,
+	View,
+} from 'react-native'
 import FastImage from 'react-native-fast-image'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { Track, useActiveTrack } from 'react-native-track-player'
-import TracksListItem from './TracksListItem'
+import QueueTrackRow from './QueueTrackRow'
 
 export type TracksListProps = Partial<FlatListProps<Track>> & {
 	id: string
 	tracks: Track[]
+	/** "接下来播放"队列，显示在播放列表前 */
+	upNextTracks?: Track[]
 	hideQueueControls?: boolean
 }
 
 const ITEM_HEIGHT = 60
 
-const MemoizedTracksListItem = React.memo(TracksListItem)
-
-const ItemDivider = React.memo(() => <View style={styles.itemDivider} />)
-
 const EmptyListComponent = React.memo(() => (
 	<View>
 		<Text style={utilsStyles.emptyContentText}>No songs</Text>
@@ -32,10 +42,19 @@ const EmptyListComponent = React.memo(() => (
 ))
 
 export const NowPlayList = React.memo(
-	({ id, tracks, hideQueueControls = false, ...flatlistProps }: TracksListProps) => {
+	({
+		id,
+		tracks,
+		upNextTracks = [],
+		hideQueueControls = false,
+		...flatlistProps
+	}: TracksListProps) => {
 		const flatListRef = useRef<FlatList<Track>>(null)
 		const activeTrack = useActiveTrack()
 		const { top } = useSafeAreaInsets()
+		// "接下来播放"部分的高度，用于计算播放列表中歌曲的位置
+		const [upNextHeight, setUpNextHeight] = useState(0)
+		const undoCount = myTrackPlayer.useQueueUndoCount()
 
 		const initialIndex = useMemo(
 			() => (activeTrack ? tracks.findIndex((track) => track.id === activeTrack.id) : -1),
@@ -45,16 +64,111 @@ export const NowPlayList = React.memo(
 		const getItemLayout = useCallback(
 			(_: any, index: number) => ({
 				length: ITEM_HEIGHT,
-				offset: ITEM_HEIGHT * index,
+				offset: upNextHeight + ITEM_HEIGHT * index,
 				index,
 			}),
-			[],
+			[upNextHeight],
 		)
 
 		const handleTrackSelect = useCallback(async (selectedTrack: Track) => {
 			await myTrackPlayer.play(selectedTrack as IMusic.IMusicItem)
 		}, [])
 
+		const handleUpNextSelect = useCallback(async (selectedTrack: Track) => {
+			await myTrackPlayer.playUpNext(selectedTrack as IMusic.IMusicItem)
+		}, [])
+
+		const handleUpNextDelete = useCallback(
+			(trackId: string) => {
+				myTrackPlayer.setUpNext(
+					upNextTracks.filter((track) => track.id !== trackId) as IMusic.IMusicItem[],
+				)
+			},
+			[upNextTracks],
+		)
+
+		const handleUpNextRemove = useCallback(
+			(index: number) => {
+				myTrackPlayer.setUpNext(upNextTracks.filter((_, i) => i !== index) as IMusic.IMusicItem[])
+			},
+			[upNextTracks],
+		)
+
+		const handleTrackRemove = useCallback(
+			(index: number) => {
+				myTrackPlayer.remove(tracks[index] as IMusic.IMusicItem)
+			},
+			[tracks],
+		)
+
+		const handleUndo = useCallback(() => {
+			myTrackPlayer.undoQueueChange()
+		}, [])
+
+		const handleSaveAsPlayList = useCallback(() => {
+			Alert.prompt(
+				i18n.t('nowPlayList.saveAsPlayList'),
+				i18n.t('nowPlayList.playListName'),
+				[
+					{ text: i18n.t('nowPlayList.cancel'), style: 'cancel' },
+					{
+						text: i18n.t('nowPlayList.confirm'),
+						onPress: (name) => {
+							if (!name?.trim()) {
+								return
+							}
+							myTrackPlayer.saveQueueAsPlayList(name.trim())
+							showToast(i18n.t('nowPlayList.saved'), i18n.t('nowPlayList.savedMessage'))
+						},
+					},
+				],
+				'plain-text',
+			)
+		}, [])
+
+		const handleUpNextLayout = useCallback((event: LayoutChangeEvent) => {
+			setUpNextHeight(event.nativeEvent.layout.height)
+		}, [])
+
+		const UpNextSection = useMemo(
+			() =>
+				upNextTracks.length ? (
+					<View onLayout={handleUpNextLayout}>
+						<View style={styles.sectionHeader}>
+							<Text style={styles.sectionTitle}>{i18n.t('nowPlayList.upNext')}</Text>
+							<TouchableOpacity onPress={() => myTrackPlayer.setUpNext([])}>
+								<Text style={styles.sectionAction}>{i18n.t('nowPlayList.clear')}</Text>
+							</TouchableOpacity>
+						</View>
+						{upNextTracks.map((track, index) => (
+							<QueueTrackRow
+								key={`${track.platform}-${track.id}`}
+								track={track}
+								index={index}
+								count={upNextTracks.length}
+								onTrackSelect={handleUpNextSelect}
+								onRemove={handleUpNextRemove}
+								onMove={myTrackPlayer.moveUpNext}
+								allowDelete
+								onDeleteTrack={handleUpNextDelete}
+							/>
+						))}
+						<View style={styles.sectionHeader}>
+							<Text style={styles.sectionTitle}>{i18n.t('nowPlayList.playList')}</Text>
+						</View>
+					</View>
+				) : (
+					<View onLayout={handleUpNextLayout} />
+				),
+			[
+				upNextTracks,
+				handleUpNextSelect,
+				handleUpNextRemove,
+				handleUpNextDelete,
+				handleUpNextLayout,
+			],
+		)
+
 		const handleScrollToIndexFailed = useCallback((info: { index: number }) => {
 			setTimeout(() => {
 				flatListRef.current?.scrollToIndex({
@@ -66,10 +180,17 @@ export const NowPlayList = React.memo(
 		}, [])
 
 		const renderItem = useCallback(
-			({ item: track }: { item: Track }) => (
-				<MemoizedTracksListItem track={track} onTrackSelect={handleTrackSelect} />
+			({ item: track, index }: { item: Track; index: number }) => (
+				<QueueTrackRow
+					track={track}
+					index={index}
+					count={tracks.length}
+					onTrackSelect={handleTrackSelect}
+					onRemove={handleTrackRemove}
+					onMove={myTrackPlayer.move}
+				/>
 			),
-			[handleTrackSelect],
+			[tracks.length, handleTrackSelect, handleTrackRemove],
 		)
 
 		const keyExtractor = useCallback((item: Track) => item.id, [])
@@ -88,10 +209,28 @@ export const NowPlayList = React.memo(
 			() => (
 				<View style={[styles.dismissPlayerSymbol, { top: top - 38 }]}>
 					<View style={styles.dismissPlayerBar} />
-					<Text style={styles.header}>播放列表</Text>
+					<View style={styles.headerRow}>
+						<Text style={styles.header}>{i18n.t('nowPlayList.playList')}</Text>
+						<View style={styles.headerActions}>
+							<TouchableOpacity
+								onPress={handleUndo}
+								disabled={undoCount === 0}
+								style={styles.headerButton}
+							>
+								<Ionicons
+									name="arrow-undo-outline"
+									size={24}
+									color={undoCount === 0 ? colors.textMuted : colors.text}
+								/>
+							</TouchableOpacity>
+							<TouchableOpacity onPress={handleSaveAsPlayList} style={styles.headerButton}>
+								<Ionicons name="save-outline" size={24} color={colors.text} />
+							</TouchableOpacity>
+						</View>
+					</View>
 				</View>
 			),
-			[top],
+			[top, undoCount, handleUndo, handleSaveAsPlayList],
 		)
 
 		return (
@@ -100,8 +239,7 @@ export const NowPlayList = React.memo(
 				<FlatList
 					data={tracks}
 					contentContainerStyle={styles.contentContainer}
-					ListFooterComponent={ItemDivider}
-					ItemSeparatorComponent={ItemDivider}
+					ListHeaderComponent={UpNextSection}
 					ref={flatListRef}
 					getItemLayout={getItemLayout}
 					ListEmptyComponent={EmptyListComponent}
@@ -129,11 +267,6 @@ const styles = StyleSheet.create({
 		paddingTop: 60,
 		paddingBottom: 128,
 	},
-	itemDivider: {
-		...utilsStyles.itemSeparator,
-		marginVertical: 9,
-		marginLeft: 60,
-	},
 	dismissPlayerSymbol: {
 		position: 'absolute',
 		left: 0,
@@ -151,6 +284,34 @@ const styles = StyleSheet.create({
 		alignSelf: 'center',
 		marginBottom: 10,
 	},
+	sectionHeader: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+		paddingVertical: 10,
+	},
+	sectionTitle: {
+		fontSize: 18,
+		fontWeight: 'bold',
+		color: colors.text,
+	},
+	sectionAction: {
+		fontSize: 14,
+		color: colors.primary,
+	},
+	headerRow: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+	},
+	headerActions: {
+		flexDirection: 'row',
+		paddingRight: 20,
+		paddingBottom: 10,
+	},
+	headerButton: {
+		marginLeft: 16,
+	},
 	header: {
 		fontSize: 28,
 		fontWeight: 'bold',
@@ -1,10 +1,8 @@
 import { colors } from '@/constants/tokens'
-import myTrackPlayer, { MusicRepeatMode, repeatModeStore } from '@/helpers/trackPlayerIndex'
-import { setPlayList } from '@/store/playList'
+import myTrackPlayer, { MusicRepeatMode } from '@/helpers/trackPlayerIndex'
 import { defaultStyles } from '@/styles'
 import i18n from '@/utils/i18n'
 import { Ionicons } from '@expo/vector-icons'
-import shuffle from 'lodash.shuffle'
 import { StyleSheet, Text, View, ViewProps } from 'react-native'
 import { TouchableOpacity } from 'react-native-gesture-handler'
 import { Track } from 'react-native-track-player'
@@ -41,13 +39,7 @@ export const QueueControls = ({
 	}
 
 	const handleShufflePlay = async () => {
-		const shuffledTracks = shuffle(tracks)
-		setPlayList(shuffledTracks as IMusic.IMusicItem[])
-		repeatModeStore.setValue(MusicRepeatMode.SHUFFLE)
-		await myTrackPlayer.playWithReplacePlayList(
-			shuffledTracks[1] as IMusic.IMusicItem,
-			shuffledTracks as IMusic.IMusicItem[],
-		)
+		await myTrackPlayer.playWithShuffle(tracks as IMusic.IMusicItem[])
 	}
 
 	return (
@@ -0,0 +1,139 @@
+import { colors } from '@/constants/tokens'
+import { utilsStyles } from '@/styles'
+import { Ionicons } from '@expo/vector-icons'
+import React, { useMemo, useRef, useState } from 'react'
+import { Animated, StyleSheet, TouchableOpacity, View } from 'react-native'
+import { Gesture, GestureDetector } from 'react-native-gesture-handler'
+import Swipeable from 'react-native-gesture-handler/Swipeable'
+import { Track } from 'react-native-track-player'
+import TracksListItem from './TracksListItem'
+
+export type QueueTrackRowProps = {
+	track: Track
+	index: number
+	/** 列表长度，拖动时限制范围 */
+	count: number
+	onTrackSelect: (track: Track) => void
+	/** 左滑移除 */
+	onRemove: (index: number) => void
+	/** 拖动排序 */
+	onMove: (fromIndex: number, toIndex: number) => void
+	allowDelete?: boolean
+	onDeleteTrack?: (trackId: string) => void
+}
+
+/** 播放列表中的一行，右侧按住拖动排序，左滑移除 */
+const QueueTrackRow = ({
+	track,
+	index,
+	count,
+	onTrackSelect,
+	onRemove,
+	onMove,
+	allowDelete,
+	onDeleteTrack,
+}: QueueTrackRowProps) => {
+	const translateY = useRef(new Animated.Value(0)).current
+	const rowHeight = useRef(0)
+	const [isDragging, setIsDragging] = useState(false)
+
+	const dragGesture = useMemo(
+		() =>
+			Gesture.Pan()
+				.runOnJS(true)
+				.onStart(() => setIsDragging(true))
+				.onUpdate((event) => translateY.setValue(event.translationY))
+				.onEnd((event) => {
+					if (!rowHeight.current) {
+						return
+					}
+					const toIndex = Math.min(
+						Math.max(index + Math.round(event.translationY / rowHeight.current), 0),
+						count - 1,
+					)
+					if (toIndex !== index) {
+						onMove(index, toIndex)
+					}
+				})
+				.onFinalize(() => {
+					translateY.setValue(0)
+					setIsDragging(false)
+				}),
+		[index, count, onMove, translateY],
+	)
+
+	const renderRightActions = () => (
+		<TouchableOpacity style={styles.removeAction} onPress={() => onRemove(index)}>
+			<Ionicons name="trash-outline" size={22} color={colors.text} />
+		</TouchableOpacity>
+	)
+
+	return (
+		<Animated.View
+			style={[styles.container, isDragging && styles.dragging, { transform: [{ translateY }] }]}
+			onLayout={(event) => {
+				rowHeight.current = event.nativeEvent.layout.height
+			}}
+		>
+			<Swipeable
+				renderRightActions={renderRightActions}
+				onSwipeableOpen={(direction) => direction === 'right' && onRemove(index)}
+				rightThreshold={80}
+				enabled={!isDragging}
+			>
+				<View style={styles.row}>
+					<View style={styles.trackItem}>
+						<TracksListItem
+							track={track}
+							onTrackSelect={onTrackSelect}
+							allowDelete={allowDelete}
+							onDeleteTrack={onDeleteTrack}
+						/>
+					</View>
+					<GestureDetector gesture={dragGesture}>
+						<View style={styles.dragHandle}>
+							<Ionicons name="reorder-three-outline" size={24} color={colors.textMuted} />
+						</View>
+					</GestureDetector>
+				</View>
+			</Swipeable>
+			<View style={styles.itemDivider} />
+		</Animated.View>
+	)
+}
+
+const styles = StyleSheet.create({
+	container: {
+		backgroundColor: colors.background,
+	},
+	dragging: {
+		zIndex: 10,
+		elevation: 10,
+		opacity: 0.85,
+	},
+	row: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		backgroundColor: colors.background,
+	},
+	trackItem: {
+		flex: 1,
+	},
+	dragHandle: {
+		paddingLeft: 12,
+		paddingVertical: 12,
+	},
+	removeAction: {
+		justifyContent: 'center',
+		alignItems: 'center',
+		width: 80,
+		backgroundColor: colors.primary,
+	},
+	itemDivider: {
+		...utilsStyles.itemSeparator,
+		marginVertical: 9,
+		marginLeft: 60,
+	},
+})
+
+export default React.memo(QueueTrackRow)
@@ -0,0 +1,413 @@
+import { colors, fontSize, screenPadding } from '@/constants/tokens'
+import { logError } from '@/helpers/logger'
+import {
+	getCatalogEntryStatus,
+	importSourceCatalogFile,
+	installCatalogSource,
+	ISourceCatalogEntry,
+	ISourceCatalogSubscription,
+	removeCatalogSource,
+	subscribeSourceCatalog,
+	unsubscribeSourceCatalog,
+	updateCatalogSource,
+} from '@/helpers/sourceCatalog'
+import { musicApiStore } from '@/helpers/trackPlayerIndex'
+import PersistStatus from '@/store/PersistStatus'
+import i18n from '@/utils/i18n'
+import { showToast } from '@/utils/utils'
+import { Ionicons } from '@expo/vector-icons'
+import React, { useState } from 'react'
+import {
+	ActivityIndicator,
+	Alert,
+	SafeAreaView,
+	ScrollView,
+	StyleSheet,
+	Text,
+	TextInput,
+	TouchableOpacity,
+	View,
+} from 'react-native'
+
+const showError = (error: any) => {
+	logError('音源目录操作失败:', error)
+	Alert.alert(
+		i18n.t('sourceCatalog.error'),
+		error instanceof Error ? error.message : i18n.t('sourceCatalog.errorMessage'),
+	)
+}
+
+const CatalogEntryItem = ({
+	entry,
+	musicApis,
+}: {
+	entry: ISourceCatalogEntry
+	musicApis: IMusic.MusicApi[]
+}) => {
+	const [isBusy, setIsBusy] = useState(false)
+	const status = getCatalogEntryStatus(entry, musicApis)
+
+	const runAction = async (action: () => Promise<unknown> | void) => {
+		setIsBusy(true)
+		try {
+			await action()
+		} catch (error) {
+			showError(error)
+		} finally {
+			setIsBusy(false)
+		}
+	}
+
+	const handleRemove = () => {
+		Alert.alert(
+			i18n.t('sourceCatalog.removeTitle'),
+			i18n.t('sourceCatalog.removeMessage', { name: entry.name }),
+			[
+				{ text: i18n.t('sourceCatalog.cancel'), style: 'cancel' },
+				{
+					text: i18n.t('sourceCatalog.remove'),
+					style: 'destructive',
+					onPress: () => removeCatalogSource(entry),
+				},
+			],
+		)
+	}
+
+	const details = [
+		entry.author,
+		entry.platforms?.length
+			? i18n.t('sourceCatalog.platforms', { platforms: entry.platforms.join(' / ') })
+			: '',
+		entry.qualities?.length
+			? i18n.t('sourceCatalog.qualities', { qualities: entry.qualities.join(' / ') })
+			: '',
+	]
+		.filter(Boolean)
+		.join('  ·  ')
+
+	return (
+		<View style={styles.entry}>
+			<View style={styles.entryInfo}>
+				<Text numberOfLines={1} style={styles.entryName}>
+					{entry.name}
+					{!!entry.version && <Text style={styles.entryVersion}>{`  v${entry.version}`}</Text>}
+				</Text>
+				{!!details && <Text style={styles.detailText}>{details}</Text>}
+				{!!entry.description && (
+					<Text numberOfLines={2} style={styles.detailText}>
+						{entry.description}
+					</Text>
+				)}
+			</View>
+			{isBusy ? (
+				<ActivityIndicator color={colors.text} />
+			) : (
+				<View style={styles.entryActions}>
+					{status === 'notInstalled' ? (
+						<TouchableOpacity
+							style={styles.actionButton}
+							onPress={() => runAction(() => installCatalogSource(entry))}
+						>
+							<Text style={styles.actionText}>{i18n.t('sourceCatalog.install')}</Text>
+						</TouchableOpacity>
+					) : (
+						<>
+							<TouchableOpacity
+								style={[styles.actionButton, status === 'installed' && styles.actionButtonMuted]}
+								onPress={() => runAction(() => updateCatalogSource(entry))}
+							>
+								<Text style={styles.actionText}>
+									{status === 'updatable'
+										? i18n.t('sourceCatalog.update')
+										: i18n.t('sourceCatalog.checkUpdate')}
+								</Text>
+							</TouchableOpacity>
+							<TouchableOpacity onPress={handleRemove} style={styles.removeButton}>
+								<Ionicons name="trash-outline" size={18} color={colors.textMuted} />
+							</TouchableOpacity>
+						</>
+					)}
+				</View>
+			)}
+		</View>
+	)
+}
+
+const CatalogSection = ({
+	catalog,
+	musicApis,
+}: {
+	catalog: ISourceCatalogSubscription
+	musicApis: IMusic.MusicApi[]
+}) => {
+	const [isRefreshing, setIsRefreshing] = useState(false)
+
+	const handleRefresh = async () => {
+		setIsRefreshing(true)
+		try {
+			await subscribeSourceCatalog(catalog.url)
+		} catch (error) {
+			showError(error)
+		} finally {
+			setIsRefreshing(false)
+		}
+	}
+
+	const handleUnsubscribe = () => {
+		Alert.alert(
+			i18n.t('sourceCatalog.unsubscribeTitle'),
+			i18n.t('sourceCatalog.unsubscribeMessage', { name: catalog.name }),
+			[
+				{ text: i18n.t('sourceCatalog.cancel'), style: 'cancel' },
+				{
+					text: i18n.t('sourceCatalog.unsubscribe'),
+					style: 'destructive',
+					onPress: () => unsubscribeSourceCatalog(catalog.url),
+				},
+			],
+		)
+	}
+
+	return (
+		<View style={styles.section}>
+			<View style={styles.sectionHeader}>
+				<View style={styles.sectionInfo}>
+					<Text numberOfLines={1} style={styles.sectionTitle}>
+						{catalog.name}
+					</Text>
+					<Text numberOfLines={1} style={styles.detailText}>
+						{catalog.isLocal
+							? i18n.t('sourceCatalog.localFile')
+							: i18n.t('sourceCatalog.updateTime', {
+									time: new Date(catalog.updateTime).toLocaleString(),
+								})}
+					</Text>
+				</View>
+				{!catalog.isLocal &&
+					(isRefreshing ? (
+						<ActivityIndicator color={colors.text} style={styles.iconButton} />
+					) : (
+						<TouchableOpacity onPress={handleRefresh} style={styles.iconButton}>
+							<Ionicons name="refresh" size={20} color={colors.text} />
+						</TouchableOpacity>
+					))}
+				<TouchableOpacity onPress={handleUnsubscribe} style={styles.iconButton}>
+					<Ionicons name="close-circle-outline" size={20} color={colors.text} />
+				</TouchableOpacity>
+			</View>
+			{catalog.sources.length === 0 ? (
+				<Text style={styles.emptyText}>{i18n.t('sourceCatalog.noSources')}</Text>
+			) : (
+				catalog.sources.map((entry) => (
+					<CatalogEntryItem key={entry.srcUrl} entry={entry} musicApis={musicApis} />
+				))
+			)}
+		</View>
+	)
+}
+
+const SourceCatalogScreen = () => {
+	const catalogs = PersistStatus.useValue('music.sourceCatalogs', []) || []
+	const musicApis = musicApiStore.useValue() || []
+	const [url, setUrl] = useState('')
+	const [isSubscribing, setIsSubscribing] = useState(false)
+
+	const handleSubscribe = async () => {
+		if (!/^https?:\/\//i.test(url.trim())) {
+			Alert.alert(i18n.t('sourceCatalog.error'), i18n.t('sourceCatalog.invalidUrl'))
+			return
+		}
+		setIsSubscribing(true)
+		try {
+			const catalog = await subscribeSourceCatalog(url.trim())
+			setUrl('')
+			showToast(i18n.t('sourceCatalog.subscribed', { name: catalog.name }))
+		} catch (error) {
+			showError(error)
+		} finally {
+			setIsSubscribing(false)
+		}
+	}
+
+	const handleImportFile = async () => {
+		try {
+			const catalog = await importSourceCatalogFile()
+			if (catalog) {
+				showToast(i18n.t('sourceCatalog.subscribed', { name: catalog.name }))
+			}
+		} catch (error) {
+			showError(error)
+		}
+	}
+
+	return (
+		<SafeAreaView style={styles.safeArea}>
+			<ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+				<Text style={styles.description}>{i18n.t('sourceCatalog.description')}</Text>
+				<View style={styles.inputRow}>
+					<TextInput
+						style={styles.input}
+						value={url}
+						onChangeText={setUrl}
+						placeholder={i18n.t('sourceCatalog.placeholder')}
+						placeholderTextColor={colors.textMuted}
+						autoCapitalize="none"
+						autoCorrect={false}
+						keyboardType="url"
+					/>
+					<TouchableOpacity
+						style={styles.button}
+						onPress={handleSubscribe}
+						disabled={isSubscribing}
+					>
+						{isSubscribing ? (
+							<ActivityIndicator color={colors.text} />
+						) : (
+							<Text style={styles.buttonText}>{i18n.t('sourceCatalog.subscribe')}</Text>
+						)}
+					</TouchableOpacity>
+				</View>
+				<TouchableOpacity onPress={handleImportFile} style={styles.fileButton}>
+					<Ionicons name="document-outline" size={18} color={colors.text} />
+					<Text style={styles.fileButtonText}>{i18n.t('sourceCatalog.fromFile')}</Text>
+				</TouchableOpacity>
+				{catalogs.length === 0 ? (
+					<Text style={styles.emptyText}>{i18n.t('sourceCatalog.empty')}</Text>
+				) : (
+					catalogs.map((catalog) => (
+						<CatalogSection key={catalog.url} catalog={catalog} musicApis={musicApis} />
+					))
+				)}
+			</ScrollView>
+		</SafeAreaView>
+	)
+}
+
+const styles = StyleSheet.create({
+	safeArea: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	container: {
+		flex: 1,
+		paddingHorizontal: screenPadding.horizontal,
+		paddingVertical: 16,
+	},
+	description: {
+		fontSize: fontSize.xs,
+		color: colors.textMuted,
+		marginBottom: 16,
+		lineHeight: 18,
+	},
+	inputRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		marginBottom: 8,
+	},
+	input: {
+		flex: 1,
+		padding: 10,
+		borderRadius: 6,
+		backgroundColor: '#1e1e1e',
+		color: colors.text,
+		fontSize: fontSize.sm,
+		marginRight: 8,
+	},
+	button: {
+		minWidth: 64,
+		alignItems: 'center',
+		paddingHorizontal: 16,
+		paddingVertical: 10,
+		borderRadius: 8,
+		backgroundColor: colors.primary,
+	},
+	buttonText: {
+		fontSize: fontSize.sm,
+		color: colors.text,
+		fontWeight: '600',
+	},
+	fileButton: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		alignSelf: 'flex-start',
+		paddingVertical: 8,
+		marginBottom: 16,
+	},
+	fileButtonText: {
+		marginLeft: 4,
+		fontSize: fontSize.sm,
+		color: colors.text,
+	},
+	section: {
+		marginBottom: 24,
+	},
+	sectionHeader: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		paddingBottom: 8,
+		borderBottomWidth: 1,
+		borderBottomColor: '#333',
+	},
+	sectionInfo: {
+		flex: 1,
+	},
+	sectionTitle: {
+		fontSize: fontSize.base,
+		fontWeight: '700',
+		color: colors.text,
+	},
+	iconButton: {
+		marginLeft: 16,
+	},
+	entry: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		paddingVertical: 12,
+		borderBottomWidth: 1,
+		borderBottomColor: '#333',
+	},
+	entryInfo: {
+		flex: 1,
+		marginRight: 12,
+	},
+	entryName: {
+		fontSize: fontSize.base,
+		color: colors.text,
+	},
+	entryVersion: {
+		fontSize: fontSize.sm,
+		color: colors.textMuted,
+	},
+	entryActions: {
+		flexDirection: 'row',
+		alignItems: 'center',
+	},
+	actionButton: {
+		paddingHorizontal: 12,
+		paddingVertical: 6,
+		borderRadius: 14,
+		backgroundColor: colors.primary,
+	},
+	actionButtonMuted: {
+		backgroundColor: '#1e1e1e',
+	},
+	actionText: {
+		fontSize: fontSize.sm,
+		color: colors.text,
+	},
+	removeButton: {
+		marginLeft: 12,
+	},
+	detailText: {
+		marginTop: 2,
+		fontSize: fontSize.xs,
+		color: colors.textMuted,
+	},
+	emptyText: {
+		marginTop: 8,
+		fontSize: fontSize.sm,
+		color: colors.textMuted,
+	},
+})
+
+export default SourceCatalogScreen
@@ -0,0 +1,251 @@
+import { colors, fontSize, screenPadding } from '@/constants/tokens'
+import { musicApiSelectedStore, musicApiStore } from '@/helpers/trackPlayerIndex'
+import Config from '@/store/config'
+import {
+	clearSourceHealth,
+	compareSourceHealth,
+	getSourceHealthSummary,
+	ISourceHealthSummary,
+	useSourceHealthVersion,
+} from '@/store/sourceHealth'
+import i18n from '@/utils/i18n'
+import { Ionicons } from '@expo/vector-icons'
+import React from 'react'
+import {
+	Alert,
+	SafeAreaView,
+	ScrollView,
+	StyleSheet,
+	Switch,
+	Text,
+	TouchableOpacity,
+	View,
+} from 'react-native'
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`
+
+const SourceHealthItem = ({
+	musicApi,
+	summary,
+	isSelected,
+}: {
+	musicApi: IMusic.MusicApi
+	summary: ISourceHealthSummary
+	isSelected: boolean
+}) => {
+	const qualities = Object.entries(summary.qualityCounts)
+		.map(([quality, count]) => `${quality} × ${count}`)
+		.join('  ')
+	return (
+		<View style={styles.item}>
+			<View style={styles.itemHeader}>
+				<Text numberOfLines={1} style={styles.itemName}>
+					{musicApi.name}
+				</Text>
+				{isSelected && <Ionicons name="checkmark-circle" size={18} color={colors.primary} />}
+			</View>
+			{summary.total === 0 ? (
+				<Text style={styles.emptyText}>{i18n.t('sourceHealth.noRecords')}</Text>
+			) : (
+				<>
+					<View style={styles.metrics}>
+						<View style={styles.metric}>
+							<Text style={styles.metricValue}>{formatPercent(summary.successRate)}</Text>
+							<Text style={styles.metricLabel}>{i18n.t('sourceHealth.successRate')}</Text>
+						</View>
+						<View style={styles.metric}>
+							<Text style={styles.metricValue}>
+								{summary.medianLatency === null ? '-' : `${summary.medianLatency}ms`}
+							</Text>
+							<Text style={styles.metricLabel}>{i18n.t('sourceHealth.medianLatency')}</Text>
+						</View>
+						<View style={styles.metric}>
+							<Text style={styles.metricValue}>{summary.total}</Text>
+							<Text style={styles.metricLabel}>{i18n.t('sourceHealth.records')}</Text>
+						</View>
+					</View>
+					{!!qualities && (
+						<Text style={styles.detailText}>{i18n.t('sourceHealth.qualities', { qualities })}</Text>
+					)}
+					{!!summary.lastError && (
+						<Text numberOfLines={2} style={styles.errorText}>
+							{i18n.t('sourceHealth.lastError', {
+								time: new Date(summary.lastErrorTime ?? 0).toLocaleString(),
+								error: summary.lastError,
+							})}
+						</Text>
+					)}
+				</>
+			)}
+		</View>
+	)
+}
+
+const SourceHealthScreen = () => {
+	// 记录更新时重新渲染
+	useSourceHealthVersion()
+	const musicApis = musicApiStore.useValue() || []
+	const selectedApi = musicApiSelectedStore.useValue()
+	const autoSelect = Config.useConfig('setting.basic.autoSelectHealthiestSource') ?? false
+	// 最健康的音源排在最前
+	const items = musicApis
+		.map((musicApi) => ({ musicApi, summary: getSourceHealthSummary(musicApi.id) }))
+		.sort((a, b) => compareSourceHealth(a.summary, b.summary))
+
+	const handleClear = () => {
+		Alert.alert(i18n.t('sourceHealth.clearTitle'), i18n.t('sourceHealth.clearMessage'), [
+			{ text: i18n.t('sourceHealth.cancel'), style: 'cancel' },
+			{
+				text: i18n.t('sourceHealth.confirm'),
+				style: 'destructive',
+				onPress: clearSourceHealth,
+			},
+		])
+	}
+
+	return (
+		<SafeAreaView style={styles.safeArea}>
+			<View style={styles.container}>
+				<View style={styles.header}>
+					<Text style={styles.title}>{i18n.t('sourceHealth.title')}</Text>
+					<TouchableOpacity onPress={handleClear} style={styles.iconButton}>
+						<Ionicons name="trash-outline" size={20} color={colors.text} />
+						<Text style={styles.buttonText}>{i18n.t('sourceHealth.clear')}</Text>
+					</TouchableOpacity>
+				</View>
+				<View style={styles.switchRow}>
+					<View style={styles.switchLabel}>
+						<Text style={styles.switchTitle}>{i18n.t('sourceHealth.autoSelect')}</Text>
+						<Text style={styles.switchDescription}>
+							{i18n.t('sourceHealth.autoSelectDescription')}
+						</Text>
+					</View>
+					<Switch
+						value={autoSelect}
+						onValueChange={(value) => Config.set('setting.basic.autoSelectHealthiestSource', value)}
+					/>
+				</View>
+				<ScrollView style={styles.scrollView}>
+					{items.length === 0 ? (
+						<Text style={styles.emptyText}>{i18n.t('sourceHealth.empty')}</Text>
+					) : (
+						items.map(({ musicApi, summary }) => (
+							<SourceHealthItem
+								key={musicApi.id}
+								musicApi={musicApi}
+								summary={summary}
+								isSelected={selectedApi?.id === musicApi.id}
+							/>
+						))
+					)}
+				</ScrollView>
+			</View>
+		</SafeAreaView>
+	)
+}
+
+const styles = StyleSheet.create({
+	safeArea: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	container: {
+		flex: 1,
+		backgroundColor: colors.background,
+		paddingHorizontal: screenPadding.horizontal,
+	},
+	header: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+		marginBottom: 16,
+		paddingVertical: 8,
+	},
+	title: {
+		fontSize: fontSize.lg,
+		fontWeight: '700',
+		color: colors.text,
+	},
+	iconButton: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		marginLeft: 16,
+	},
+	buttonText: {
+		marginLeft: 4,
+		color: colors.text,
+		fontSize: fontSize.sm,
+	},
+	switchRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		marginBottom: 16,
+	},
+	switchLabel: {
+		flex: 1,
+		marginRight: 12,
+	},
+	switchTitle: {
+		fontSize: fontSize.base,
+		color: colors.text,
+	},
+	switchDescription: {
+		marginTop: 4,
+		fontSize: fontSize.xs,
+		color: colors.textMuted,
+	},
+	scrollView: {
+		flex: 1,
+	},
+	item: {
+		paddingVertical: 12,
+		borderBottomWidth: 1,
+		borderBottomColor: '#333',
+	},
+	itemHeader: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		marginBottom: 8,
+	},
+	itemName: {
+		flex: 1,
+		fontSize: fontSize.base,
+		fontWeight: '700',
+		color: colors.text,
+	},
+	metrics: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		marginBottom: 8,
+	},
+	metric: {
+		flex: 1,
+		alignItems: 'center',
+	},
+	metricValue: {
+		fontSize: fontSize.base,
+		fontWeight: '700',
+		color: colors.text,
+	},
+	metricLabel: {
+		marginTop: 2,
+		fontSize: fontSize.xs,
+		color: colors.textMuted,
+	},
+	detailText: {
+		fontSize: fontSize.sm,
+		color: colors.textMuted,
+		marginBottom: 4,
+	},
+	errorText: {
+		fontSize: fontSize.sm,
+		color: '#ff3b30',
+	},
+	emptyText: {
+		fontSize: fontSize.sm,
+		color: colors.textMuted,
+	},
+})
+
+export default SourceHealthScreen
@@ -0,0 +1,130 @@
+import { colors, fontSize, screenPadding } from '@/constants/tokens'
+import myTrackPlayer, { musicApiStore } from '@/helpers/trackPlayerIndex'
+import { getUserVariables, setUserVariables } from '@/store/userVariables'
+import i18n from '@/utils/i18n'
+import { showToast } from '@/utils/utils'
+import React, { useState } from 'react'
+import {
+	SafeAreaView,
+	ScrollView,
+	StyleSheet,
+	Text,
+	TextInput,
+	TouchableOpacity,
+	View,
+} from 'react-native'
+
+const SourceVariablesForm = ({ musicApi }: { musicApi: IMusic.MusicApi }) => {
+	const [values, setValues] = useState(() => getUserVariables(musicApi.id))
+
+	const handleSave = () => {
+		setUserVariables(musicApi.id, values)
+		// 重新加载脚本，使脚本加载时读取的变量也生效
+		myTrackPlayer.refreshMusicApi(musicApi.id)
+		showToast(i18n.t('sourceVariables.saved'))
+	}
+
+	return (
+		<View style={styles.section}>
+			<Text style={styles.sectionTitle}>{musicApi.name}</Text>
+			{musicApi.userVariables?.map((variable) => (
+				<View key={variable.key} style={styles.field}>
+					<Text style={styles.label}>{variable.name || variable.key}</Text>
+					<TextInput
+						style={styles.input}
+						value={values[variable.key] ?? ''}
+						onChangeText={(text) => setValues((prev) => ({ ...prev, [variable.key]: text }))}
+						placeholder={variable.hint}
+						placeholderTextColor={colors.textMuted}
+						autoCapitalize="none"
+						autoCorrect={false}
+					/>
+				</View>
+			))}
+			<TouchableOpacity style={styles.button} onPress={handleSave}>
+				<Text style={styles.buttonText}>{i18n.t('sourceVariables.save')}</Text>
+			</TouchableOpacity>
+		</View>
+	)
+}
+
+const SourceVariablesScreen = () => {
+	const musicApis = musicApiStore.useValue() || []
+	// 只显示声明了用户变量的音源
+	const configurableApis = musicApis.filter((musicApi) => musicApi.userVariables?.length)
+
+	return (
+		<SafeAreaView style={styles.safeArea}>
+			<ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+				<Text style={styles.description}>{i18n.t('sourceVariables.description')}</Text>
+				{configurableApis.length === 0 ? (
+					<Text style={styles.emptyText}>{i18n.t('sourceVariables.empty')}</Text>
+				) : (
+					configurableApis.map((musicApi) => (
+						<SourceVariablesForm key={musicApi.id} musicApi={musicApi} />
+					))
+				)}
+			</ScrollView>
+		</SafeAreaView>
+	)
+}
+
+const styles = StyleSheet.create({
+	safeArea: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	container: {
+		flex: 1,
+		paddingHorizontal: screenPadding.horizontal,
+		paddingVertical: 16,
+	},
+	description: {
+		fontSize: fontSize.xs,
+		color: colors.textMuted,
+		marginBottom: 16,
+		lineHeight: 18,
+	},
+	section: {
+		marginBottom: 24,
+	},
+	sectionTitle: {
+		fontSize: fontSize.base,
+		fontWeight: '700',
+		color: colors.text,
+		marginBottom: 8,
+	},
+	field: {
+		marginBottom: 12,
+	},
+	label: {
+		fontSize: fontSize.sm,
+		color: colors.text,
+		marginBottom: 4,
+	},
+	input: {
+		padding: 10,
+		borderRadius: 6,
+		backgroundColor: '#1e1e1e',
+		color: colors.text,
+		fontSize: fontSize.sm,
+	},
+	button: {
+		alignSelf: 'flex-end',
+		paddingHorizontal: 20,
+		paddingVertical: 10,
+		borderRadius: 8,
+		backgroundColor: colors.primary,
+	},
+	buttonText: {
+		fontSize: fontSize.sm,
+		color: colors.text,
+		fontWeight: '600',
+	},
+	emptyText: {
+		fontSize: fontSize.sm,
+		color: colors.textMuted,
+	},
+})
+
+export default SourceVariablesScreen
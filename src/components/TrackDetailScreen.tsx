@@ -0,0 +1,268 @@
+import { unknownTrackImageUri } from '@/constants/images'
+import { colors, fontSize, screenPadding } from '@/constants/tokens'
+import myTrackPlayer from '@/helpers/trackPlayerIndex'
+import i18n from '@/utils/i18n'
+import { isSameMediaItem } from '@/utils/mediaItem'
+import formatTime from '@/utils/timeformat'
+import { showToast } from '@/utils/utils'
+import React, { useState } from 'react'
+import {
+	Alert,
+	SafeAreaView,
+	ScrollView,
+	StyleSheet,
+	Text,
+	TextInput,
+	TouchableOpacity,
+	View,
+} from 'react-native'
+import FastImage from 'react-native-fast-image'
+
+/** 解析 ss、mm:ss 或 hh:mm:ss 格式的时间，为空时返回 0，格式错误时返回 null */
+const parseTime = (text: string) => {
+	const trimmed = text.trim()
+	if (!trimmed) {
+		return 0
+	}
+	const parts = trimmed.split(':')
+	if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) {
+		return null
+	}
+	return parts.reduce((total, part) => total * 60 + Number(part), 0)
+}
+
+const formatTrimTime = (seconds?: number) => (seconds ? formatTime(seconds) : '')
+
+const DetailRow = ({ label, value }: { label: string; value?: string | number }) => (
+	<View style={styles.detailRow}>
+		<Text style={styles.detailLabel}>{label}</Text>
+		<Text numberOfLines={1} style={styles.detailValue}>
+			{value || '-'}
+		</Text>
+	</View>
+)
+
+const TrackDetailScreen = ({ track }: { track: IMusic.IMusicItem }) => {
+	const currentMusic = myTrackPlayer.useCurrentMusic()
+	const isCurrent = !!currentMusic && isSameMediaItem(currentMusic, track)
+	const [trim] = useState(() => myTrackPlayer.getTrackTrim(track))
+	const [startText, setStartText] = useState(formatTrimTime(trim.start))
+	const [endText, setEndText] = useState(formatTrimTime(trim.end))
+
+	const handleUseCurrentPosition = async (setText: (text: string) => void) => {
+		const { position } = await myTrackPlayer.getProgress()
+		setText(formatTime(position))
+	}
+
+	const handleSave = () => {
+		const start = parseTime(startText)
+		const end = parseTime(endText)
+		if (start === null || end === null) {
+			Alert.alert(i18n.t('trackDetail.error'), i18n.t('trackDetail.invalidTime'))
+			return
+		}
+		if (end && end <= start) {
+			Alert.alert(i18n.t('trackDetail.error'), i18n.t('trackDetail.invalidRange'))
+			return
+		}
+		if (track.duration && start >= track.duration) {
+			Alert.alert(i18n.t('trackDetail.error'), i18n.t('trackDetail.exceedDuration'))
+			return
+		}
+		myTrackPlayer.setTrackTrim(track, { start, end })
+		showToast(i18n.t('trackDetail.saved'))
+	}
+
+	const handleReset = () => {
+		setStartText('')
+		setEndText('')
+		myTrackPlayer.setTrackTrim(track, {})
+		showToast(i18n.t('trackDetail.cleared'))
+	}
+
+	const renderTimeInput = (label: string, value: string, setText: (text: string) => void) => (
+		<View style={styles.inputRow}>
+			<Text style={styles.inputLabel}>{label}</Text>
+			<TextInput
+				style={styles.input}
+				value={value}
+				onChangeText={setText}
+				placeholder={i18n.t('trackDetail.timePlaceholder')}
+				placeholderTextColor={colors.textMuted}
+				keyboardType="numbers-and-punctuation"
+			/>
+			{isCurrent && (
+				<TouchableOpacity
+					style={styles.positionButton}
+					onPress={() => handleUseCurrentPosition(setText)}
+				>
+					<Text style={styles.positionButtonText}>{i18n.t('trackDetail.useCurrentPosition')}</Text>
+				</TouchableOpacity>
+			)}
+		</View>
+	)
+
+	return (
+		<SafeAreaView style={styles.safeArea}>
+			<ScrollView style={styles.container}>
+				<View style={styles.header}>
+					<FastImage
+						source={{ uri: track.artwork || unknownTrackImageUri }}
+						style={styles.artwork}
+						resizeMode="cover"
+					/>
+					<View style={styles.headerText}>
+						<Text numberOfLines={2} style={styles.title}>
+							{track.title}
+						</Text>
+						<Text numberOfLines={1} style={styles.artist}>
+							{track.artist}
+						</Text>
+					</View>
+				</View>
+				<View style={styles.section}>
+					<DetailRow label={i18n.t('trackDetail.album')} value={track.album} />
+					<DetailRow label={i18n.t('trackDetail.platform')} value={track.platform} />
+					<DetailRow
+						label={i18n.t('trackDetail.duration')}
+						value={track.duration ? formatTime(track.duration) : undefined}
+					/>
+				</View>
+				<View style={styles.section}>
+					<Text style={styles.sectionTitle}>{i18n.t('trackDetail.trim')}</Text>
+					<Text style={styles.sectionDescription}>{i18n.t('trackDetail.trimDescription')}</Text>
+					{renderTimeInput(i18n.t('trackDetail.startTime'), startText, setStartText)}
+					{renderTimeInput(i18n.t('trackDetail.endTime'), endText, setEndText)}
+					<View style={styles.buttons}>
+						<TouchableOpacity style={styles.button} onPress={handleReset}>
+							<Text style={styles.buttonText}>{i18n.t('trackDetail.reset')}</Text>
+						</TouchableOpacity>
+						<TouchableOpacity style={[styles.button, styles.primaryButton]} onPress={handleSave}>
+							<Text style={styles.buttonText}>{i18n.t('trackDetail.save')}</Text>
+						</TouchableOpacity>
+					</View>
+				</View>
+			</ScrollView>
+		</SafeAreaView>
+	)
+}
+
+const styles = StyleSheet.create({
+	safeArea: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	container: {
+		flex: 1,
+		backgroundColor: colors.background,
+		paddingHorizontal: screenPadding.horizontal,
+	},
+	header: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		paddingVertical: 16,
+	},
+	artwork: {
+		width: 80,
+		height: 80,
+		borderRadius: 8,
+	},
+	headerText: {
+		flex: 1,
+		marginLeft: 16,
+	},
+	title: {
+		fontSize: fontSize.base,
+		fontWeight: '700',
+		color: colors.text,
+	},
+	artist: {
+		marginTop: 4,
+		fontSize: fontSize.sm,
+		color: colors.textMuted,
+	},
+	section: {
+		marginBottom: 24,
+	},
+	sectionTitle: {
+		fontSize: fontSize.base,
+		fontWeight: '700',
+		color: colors.text,
+		marginBottom: 4,
+	},
+	sectionDescription: {
+		fontSize: fontSize.xs,
+		color: colors.textMuted,
+		marginBottom: 8,
+	},
+	detailRow: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		paddingVertical: 10,
+		borderBottomWidth: 1,
+		borderBottomColor: '#333',
+	},
+	detailLabel: {
+		fontSize: fontSize.sm,
+		color: colors.textMuted,
+	},
+	detailValue: {
+		flex: 1,
+		marginLeft: 16,
+		textAlign: 'right',
+		fontSize: fontSize.sm,
+		color: colors.text,
+	},
+	inputRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		paddingVertical: 8,
+	},
+	inputLabel: {
+		width: 80,
+		fontSize: fontSize.sm,
+		color: colors.text,
+	},
+	input: {
+		flex: 1,
+		height: 36,
+		paddingHorizontal: 10,
+		borderRadius: 6,
+		backgroundColor: '#1e1e1e',
+		color: colors.text,
+		fontSize: fontSize.sm,
+	},
+	positionButton: {
+		marginLeft: 8,
+		paddingHorizontal: 10,
+		paddingVertical: 8,
+		borderRadius: 6,
+		backgroundColor: '#333',
+	},
+	positionButtonText: {
+		fontSize: fontSize.xs,
+		color: colors.text,
+	},
+	buttons: {
+		flexDirection: 'row',
+		justifyContent: 'flex-end',
+		marginTop: 16,
+	},
+	button: {
+		marginLeft: 12,
+		paddingHorizontal: 20,
+		paddingVertical: 10,
+		borderRadius: 8,
+		backgroundColor: '#333',
+	},
+	primaryButton: {
+		backgroundColor: colors.primary,
+	},
+	buttonText: {
+		fontSize: fontSize.sm,
+		color: colors.text,
+		fontWeight: '600',
+	},
+})
+
+export default TrackDetailScreen
@@ -1,9 +1,11 @@
 import myTrackPlayer from '@/helpers/trackPlayerIndex'
 import { getSingerMidBySingerName } from '@/helpers/userApi/getMusicSource'
+import { addDislikeRules } from '@/store/dislikeList'
 import { useFavorites } from '@/store/library'
 import { isInPlayList } from '@/store/playList'
 import { useQueue } from '@/store/queue'
 import i18n from '@/utils/i18n'
+import { showToast } from '@/utils/utils'
 import { MenuAction, MenuView } from '@react-native-menu/menu'
 import { useFocusEffect, useRouter } from 'expo-router'
 import { PropsWithChildren, useCallback, useMemo, useState } from 'react'
@@ -51,6 +53,11 @@ export const TrackShortcutsMenu = ({
 			`/(modals)/addToPlaylist?title=${track.title}&album=${track.album}&artwork=${track.artwork}&artist=${track.artist}&id=${track.id}&url=${track.url}&platform=${track.platform}&duration=${track.duration}`,
 		)
 	}
+	const handleShowTrackDetail = (track: IMusic.IMusicItem) => {
+		router.push(
+			`/(modals)/trackDetail?title=${encodeURIComponent(track.title)}&album=${encodeURIComponent(track.album ?? '')}&artwork=${encodeURIComponent(track.artwork ?? '')}&artist=${encodeURIComponent(track.artist)}&id=${track.id}&platform=${track.platform}&duration=${track.duration}`,
+		)
+	}
 	const artists = useMemo(() => {
 		if (typeof track.artist === 'string') {
 			if (track.artist.includes('、')) {
@@ -114,6 +121,12 @@ export const TrackShortcutsMenu = ({
 				await myTrackPlayer.remove(track as IMusic.IMusicItem)
 				updateIsInPlaylist()
 			})
+			.with('play-next', async () => {
+				myTrackPlayer.addAsNextTrack(track as IMusic.IMusicItem)
+			})
+			.with('add-to-queue', async () => {
+				myTrackPlayer.addToQueue(track as IMusic.IMusicItem)
+			})
 			.with('view-single-artist', async () => {
 				handleViewArtist(artists[0])
 			})
@@ -127,6 +140,20 @@ export const TrackShortcutsMenu = ({
 			.with('add-to-storedPlayList', async () => {
 				handleAddToStoredPlayList(track as IMusic.IMusicItem)
 			})
+			.with('track-detail', async () => {
+				handleShowTrackDetail(track as IMusic.IMusicItem)
+			})
+			.with('dislike-song', async () => {
+				addDislikeRules([{ name: track.title ?? '', singer: track.artist ?? '' }])
+				showToast(i18n.t('menu.dislikeAdded'))
+			})
+			.with(
+				P.when((id) => id.startsWith('dislike-artist-')),
+				(id) => {
+					addDislikeRules([{ name: '', singer: id.replace('dislike-artist-', '') }])
+					showToast(i18n.t('menu.dislikeAdded'))
+				},
+			)
 			.with('delete-track', async () => {
 				onDeleteTrack?.(track.id)
 			})
@@ -147,6 +174,16 @@ export const TrackShortcutsMenu = ({
 						: i18n.t('menu.addToPlayingList'),
 					image: isInPlaylist ? 'minus' : 'plus',
 				},
+				{
+					id: 'play-next',
+					title: i18n.t('menu.playNext'),
+					image: 'text.insert',
+				},
+				{
+					id: 'add-to-queue',
+					title: i18n.t('menu.addToQueue'),
+					image: 'text.append',
+				},
 				{
 					id: isFavorite ? 'remove-from-favorites' : 'add-to-favorites',
 					title: isFavorite ? i18n.t('menu.removeFromFavorites') : i18n.t('menu.addToFavorites'),
@@ -158,6 +195,28 @@ export const TrackShortcutsMenu = ({
 					image: 'text.badge.plus',
 				},
 				...(isSinger ? [] : (artistActions as MenuAction[])),
+				{
+					id: 'track-detail',
+					title: i18n.t('menu.trackDetail'),
+					image: 'info.circle',
+				},
+				{
+					id: 'dislike',
+					title: i18n.t('menu.dislike'),
+					image: 'hand.thumbsdown',
+					subactions: [
+						{
+							id: 'dislike-song',
+							title: i18n.t('menu.dislikeSong'),
+							image: 'music.note',
+						},
+						...artists.map((artist) => ({
+							id: `dislike-artist-${artist}`,
+							title: i18n.t('menu.dislikeArtist', { artist }),
+							image: 'person',
+						})),
+					],
+				},
 				...(allowDelete
 					? [
 							{
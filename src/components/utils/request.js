@@ -4,6 +4,7 @@ import { requestMsg } from './message'
 import { bHh } from './musicSdk/options'
 //import { deflateRaw } from 'pako'
 import { Buffer } from 'buffer';
+import { builtinSource, recordNetworkRequest } from '@/store/networkLog'
 const defaultHeaders = {
   'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; WOW64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/69.0.3497.100 Safari/537.36',
 }
@@ -176,11 +177,21 @@ const fetchData = (url, { timeout = 15000, ...options }) => {
 
   return {
     request: handleRequestData(url, options).then(options => {
+      const finishRecord = recordNetworkRequest(builtinSource, {
+        method: options.method,
+        url,
+        headers: options.headers,
+        body: options.body,
+      })
       return global.fetch(url, {
         ...options,
         signal: controller.signal,
       }).then(resp => (options.binary ? resp.blob() : resp.text()).then(text => {
         // console.log(options, headers, text)
+        finishRecord({
+          status: resp.status,
+          responseBody: options.binary ? `[二进制 ${text.size} 字节]` : text,
+        })
         return {
           headers: resp.headers.map,
           body: text,
@@ -203,6 +214,7 @@ const fetchData = (url, { timeout = 15000, ...options }) => {
         }
       }).catch(err => {
         // console.log(err, err.code, err.message)
+        finishRecord({ error: err })
         return Promise.reject(err)
       }).finally(() => {
         if (id == null) return
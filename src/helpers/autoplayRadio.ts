@@ -0,0 +1,91 @@
+/**
+ * 自动续播：播放列表快结束时，根据最后一首歌获取相似的歌曲
+ *
+ * 依次尝试同一歌手的热门歌曲、按歌手搜索、排行榜，直到凑够数量
+ */
+
+import { logInfo, logWarn } from '@/helpers/logger'
+import {
+	getSingerDetail,
+	getSingerMidBySingerName,
+	getTopListDetail,
+	getTopLists,
+} from '@/helpers/userApi/getMusicSource'
+import { searchMusic } from '@/helpers/userApi/xiaoqiu'
+import { getMediaKey } from '@/utils/mediaItem'
+import shuffle from 'lodash.shuffle'
+
+/** 每次添加的歌曲数 */
+export const defaultRadioSize = 10
+
+/** 取第一个歌手名 */
+const getMainArtist = (musicItem: IMusic.IMusicItem) =>
+	(musicItem.artist ?? '').split(/[、,，/&]/)[0].trim()
+
+async function fetchBySinger(artist: string): Promise<IMusic.IMusicItem[]> {
+	const singerMid = await getSingerMidBySingerName(artist)
+	if (!singerMid) {
+		return []
+	}
+	const detail = await getSingerDetail(singerMid)
+	return detail?.musicList ?? []
+}
+
+async function fetchBySearch(artist: string): Promise<IMusic.IMusicItem[]> {
+	const result = await searchMusic(artist, 1, 30)
+	return result?.data ?? []
+}
+
+async function fetchByTopList(): Promise<IMusic.IMusicItem[]> {
+	const groups = await getTopLists()
+	const topList = groups?.[0]?.data?.[0]
+	if (!topList) {
+		return []
+	}
+	const detail = await getTopListDetail(topList)
+	return detail?.musicList ?? []
+}
+
+/**
+ * 获取相似的歌曲
+ * @param seed 作为参考的歌曲，一般为播放列表的最后一首
+ * @param shouldExclude 需要排除的歌曲(最近播放过、已在播放列表中等)
+ * @param size 需要的数量
+ */
+export async function fetchRadioTracks(
+	seed: IMusic.IMusicItem,
+	shouldExclude: (musicItem: IMusic.IMusicItem) => boolean,
+	size = defaultRadioSize,
+) {
+	const artist = getMainArtist(seed)
+	const sources: [string, () => Promise<IMusic.IMusicItem[]>][] = [
+		...(artist
+			? ([
+					['歌手', () => fetchBySinger(artist)],
+					['搜索', () => fetchBySearch(artist)],
+				] as [string, () => Promise<IMusic.IMusicItem[]>][])
+			: []),
+		['排行榜', fetchByTopList],
+	]
+
+	const result: IMusic.IMusicItem[] = []
+	const addedKeys = new Set<string>([getMediaKey(seed)])
+	for (const [name, fetchTracks] of sources) {
+		try {
+			const candidates = shuffle(await fetchTracks()).filter(
+				(item) => item?.id && !addedKeys.has(getMediaKey(item)) && !shouldExclude(item),
+			)
+			for (const item of candidates.slice(0, size - result.length)) {
+				addedKeys.add(getMediaKey(item))
+				result.push(item)
+			}
+			logInfo(`自动续播: 从${name}获取到${candidates.length}首候选歌曲`)
+		} catch (error) {
+			logWarn(`自动续播: 从${name}获取歌曲失败:`, error)
+		}
+		if (result.length >= size) {
+			break
+		}
+	}
+	return result
+}
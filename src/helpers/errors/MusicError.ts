@@ -22,3 +22,10 @@ export class APIError extends MusicError {
 		this.name = 'APIError'
 	}
 }
+
+export class SandboxError extends MusicError {
+	constructor(message: string, details?: any) {
+		super(message, 'SANDBOX_ERROR', details)
+		this.name = 'SandboxError'
+	}
+}
@@ -0,0 +1,471 @@
+/**
+ * 洛雪音乐自定义源(user_api)兼容
+ *
+ * 在沙箱中提供 globalThis.lx，协议与洛雪音乐移动版的 user-api-preload.js 相同：
+ * 1. 脚本通过 lx.on('request') 注册请求处理函数
+ * 2. 脚本通过 lx.send('inited') 声明支持的平台、音质和操作，完成初始化
+ * 3. 播放时通过 request 事件请求 musicUrl/lyric/pic，返回结果经过校验后交给播放器
+ */
+
+import {
+	AES_MODE,
+	aesEncryptSync,
+	RSA_PADDING,
+	rsaEncryptSync,
+} from '@/components/utils/nativeModules/crypto'
+import { SandboxError } from '@/helpers/errors/MusicError'
+import { logError, logInfo } from '@/helpers/logger'
+import { defaultQualityOrder } from '@/helpers/musicApiResolver'
+import { checkRequestUrl, checkResponseUrl, runSourceScript } from '@/helpers/sourceSandbox'
+import { matchInfo } from '@/helpers/userApiHelper'
+import { recordNetworkRequest } from '@/store/networkLog'
+import { Buffer } from 'buffer'
+import { Alert, Linking } from 'react-native'
+import QuickCrypto from 'react-native-quick-crypto'
+import { stringMd5 } from 'react-native-quick-md5'
+
+/** 洛雪音乐自定义源的 API 版本 */
+const lxApiVersion = '2.0.0'
+/** 等待脚本初始化的超时(ms) */
+const initTimeout = 10000
+/** 默认请求超时(ms) */
+const defaultRequestTimeout = 15000
+/** 当前歌曲所在的平台，歌曲都来自 QQ 音乐 */
+const defaultSource: LX.Source = 'tx'
+
+const EVENT_NAMES = {
+	request: 'request',
+	inited: 'inited',
+	updateAlert: 'updateAlert',
+} as const
+
+type LxRequestAction = LX.UserApi.UserApiSourceInfoActions
+
+interface ILxRequestOptions {
+	method?: string
+	headers?: Record<string, string>
+	body?: any
+	form?: Record<string, any>
+	formData?: Record<string, any>
+	timeout?: number
+	binary?: boolean
+}
+
+interface ILxResponse {
+	statusCode: number
+	statusMessage: string
+	headers: Record<string, string>
+	bytes: number
+	raw: Uint8Array
+	body: any
+}
+
+type LxRequestCallback = (error: Error | null, response: ILxResponse | null, body: any) => void
+
+export interface ILxUserApi {
+	/** 脚本头部注释中的信息 */
+	info: ReturnType<typeof matchInfo>
+	/** 初始化完成后返回支持的平台，初始化失败时 reject */
+	ready: Promise<Partial<LX.UserApi.UserApiSources>>
+	getMusicUrl: (
+		title: string,
+		artist: string,
+		id: string,
+		quality: IMusic.IQualityKey,
+	) => Promise<string>
+	getLyric: (musicItem: IMusic.IMusicItem) => Promise<string | null>
+	getPic: (musicItem: IMusic.IMusicItem) => Promise<string | null>
+}
+
+/** 是否为洛雪音乐格式的自定义源 */
+export const isLxUserApiScript = (script: string) =>
+	/\b(globalThis|window)\.lx\b|\blx\.(on|send|request|EVENT_NAMES)\b/.test(script)
+
+/**
+ * 根据头部信息计算音源 id，同名同作者的视为同一个音源，更新时覆盖
+ * 不需要执行脚本，导入前可用于查找已导入的版本
+ */
+export const getLxMusicApiId = (info: { name: string; author: string }) =>
+	`lx_${stringMd5(`${info.name}@${info.author}`).slice(0, 12)}`
+
+/** 解析脚本头部注释 */
+export const parseLxScriptInfo = (script: string) => {
+	const header = /^\/\*[\S|\s]+?\*\//.exec(script)
+	if (!header) {
+		throw new SandboxError('不是有效的洛雪音乐自定义源：缺少头部注释')
+	}
+	return matchInfo(header[0])
+}
+
+/** 洛雪音乐 utils.buffer，和洛雪音乐一样返回 Buffer，脚本可以调用 toString('hex') 等方法 */
+const lxBuffer = {
+	from: (input: string | number[] | Uint8Array, encoding?: string) => {
+		if (typeof input === 'string') {
+			return Buffer.from(input, (encoding as BufferEncoding) || 'utf8')
+		}
+		return Buffer.from(input)
+	},
+	bufToString: (buf: number[] | Uint8Array, format?: string) =>
+		Buffer.from(buf).toString((format as BufferEncoding) || 'utf8'),
+}
+
+const toBase64 = (data: string | number[] | Uint8Array) =>
+	typeof data === 'string'
+		? Buffer.from(data, 'utf8').toString('base64')
+		: Buffer.from(data).toString('base64')
+
+/** 洛雪音乐 utils.crypto，输入和输出都是 buffer */
+const lxCrypto = {
+	aesEncrypt: (buffer: Uint8Array, mode: string, key: Uint8Array, iv: Uint8Array) => {
+		switch (mode) {
+			case 'aes-128-cbc':
+				return lxBuffer.from(
+					aesEncryptSync(
+						toBase64(buffer),
+						toBase64(key),
+						toBase64(iv),
+						AES_MODE.CBC_128_PKCS7Padding,
+					),
+					'base64',
+				)
+			case 'aes-128-ecb':
+				return lxBuffer.from(
+					aesEncryptSync(toBase64(buffer), toBase64(key), '', AES_MODE.ECB_128_NoPadding),
+					'base64',
+				)
+			default:
+				throw new SandboxError(`不支持的加密方式: ${mode}`)
+		}
+	},
+	rsaEncrypt: (buffer: Uint8Array, key: string) =>
+		lxBuffer.from(rsaEncryptSync(toBase64(buffer), key, RSA_PADDING.NoPadding), 'base64'),
+	randomBytes: (size: number) => lxBuffer.from(QuickCrypto.randomBytes(size)),
+	md5: (str: string) => {
+		if (typeof str !== 'string') {
+			throw new SandboxError('md5 的参数必须为字符串')
+		}
+		return stringMd5(str)
+	},
+}
+
+/** 按洛雪音乐 request 的参数构造请求体 */
+const buildRequestBody = (options: ILxRequestOptions, headers: Record<string, string>) => {
+	if (options.form) {
+		headers['Content-Type'] ??= 'application/x-www-form-urlencoded'
+		return new URLSearchParams(options.form).toString()
+	}
+	if (options.formData) {
+		const formData = new FormData()
+		Object.entries(options.formData).forEach(([key, value]) => formData.append(key, value))
+		return formData
+	}
+	if (options.body != null && typeof options.body === 'object') {
+		headers['Content-Type'] ??= 'application/json'
+		return JSON.stringify(options.body)
+	}
+	return options.body
+}
+
+/** 校验歌词结果，与洛雪音乐相同的长度限制 */
+const verifyLyricInfo = (info: any) => {
+	if (typeof info !== 'object' || typeof info?.lyric !== 'string' || info.lyric.length > 51200) {
+		throw new SandboxError('歌词格式错误')
+	}
+	return info.lyric as string
+}
+
+/** 校验链接结果 */
+const verifyUrl = (url: any) => {
+	if (typeof url !== 'string' || url.length > 2048 || !/^https?:/.test(url)) {
+		throw new SandboxError('返回的链接格式错误')
+	}
+	return url
+}
+
+/** 转为洛雪音乐的歌曲信息 */
+const toLxMusicInfo = (musicItem: Partial<IMusic.IMusicItem>, source: LX.Source) => ({
+	id: musicItem.id,
+	name: musicItem.title,
+	singer: musicItem.artist,
+	source,
+	songmid: musicItem.id,
+	hash: musicItem.id,
+	interval: musicItem.duration ? `${musicItem.duration}` : null,
+	albumName: musicItem.album ?? '',
+	img: musicItem.artwork ?? '',
+	albumId: musicItem.albummid ?? '',
+	types: [],
+	_types: {},
+	typeUrl: {},
+	meta: {
+		songId: musicItem.id,
+		albumName: musicItem.album ?? '',
+		picUrl: musicItem.artwork ?? '',
+	},
+})
+
+/**
+ * 在沙箱中加载洛雪音乐自定义源
+ * @param script 脚本内容
+ * @param options allowedDomains 为空时不限制域名，globals 为额外注入的全局变量
+ */
+export function loadLxUserApi(
+	script: string,
+	options: { allowedDomains?: string[]; timeout?: number; globals?: Record<string, any> } = {},
+): ILxUserApi {
+	const info = parseLxScriptInfo(script)
+	const name = info.name || '洛雪音乐自定义源'
+	const timeout = options.timeout ?? defaultRequestTimeout
+	let requestHandler: ((data: any) => Promise<any>) | null = null
+	let isShowedUpdateAlert = false
+	let resolveReady: (sources: Partial<LX.UserApi.UserApiSources>) => void
+	let rejectReady: (error: Error) => void
+	const ready = new Promise<Partial<LX.UserApi.UserApiSources>>((resolve, reject) => {
+		resolveReady = resolve
+		rejectReady = reject
+	})
+	// 避免未使用时产生未处理的 rejection
+	ready.catch(() => {})
+	const initTimer = setTimeout(() => {
+		rejectReady(new SandboxError(`音源 ${name} 初始化超时`))
+	}, initTimeout)
+
+	const handleInited = (data: any) => {
+		clearTimeout(initTimer)
+		if (!data?.status) {
+			rejectReady(new SandboxError(`音源 ${name} 初始化失败: ${data?.message ?? ''}`))
+			return
+		}
+		const sources: Partial<LX.UserApi.UserApiSources> = {}
+		for (const [source, sourceInfo] of Object.entries<any>(data.sources ?? {})) {
+			if (sourceInfo?.type !== 'music') {
+				continue
+			}
+			sources[source as LX.Source] = {
+				name: sourceInfo.name ?? source,
+				type: 'music',
+				actions: (sourceInfo.actions ?? []).filter((action: string) =>
+					['musicUrl', 'lyric', 'pic'].includes(action),
+				),
+				qualitys: sourceInfo.qualitys ?? [],
+			}
+		}
+		logInfo(`音源 ${name} 初始化完成`, sources)
+		resolveReady(sources)
+	}
+
+	const handleUpdateAlert = (data: any) => {
+		if (isShowedUpdateAlert || typeof data?.log !== 'string') {
+			return
+		}
+		isShowedUpdateAlert = true
+		const updateUrl = typeof data.updateUrl === 'string' ? data.updateUrl : ''
+		Alert.alert(`音源 ${name} 有新版本`, data.log.slice(0, 1024), [
+			{ text: '取消', style: 'cancel' },
+			...(/^https?:\/\//.test(updateUrl)
+				? [{ text: '去更新', onPress: () => Linking.openURL(updateUrl) }]
+				: []),
+		])
+	}
+
+	const request = (url: string, requestOptions: ILxRequestOptions, callback: LxRequestCallback) => {
+		const controller = new AbortController()
+		const reason = checkRequestUrl(url, options.allowedDomains ?? [])
+		if (reason) {
+			setTimeout(() => callback(new SandboxError(`音源 ${name} 请求被拦截: ${reason}`), null, null))
+			return () => {}
+		}
+		const headers = { ...requestOptions?.headers }
+		const timer = setTimeout(() => controller.abort(), requestOptions?.timeout ?? timeout)
+		const method = (requestOptions?.method ?? 'GET').toUpperCase()
+		const requestBody = buildRequestBody(requestOptions ?? {}, headers)
+		const finishRecord = recordNetworkRequest(name, { method, url, headers, body: requestBody })
+		fetch(url, {
+			method,
+			headers,
+			body: requestBody,
+			signal: controller.signal,
+		})
+			.then(async (response) => {
+				const redirectReason = checkResponseUrl(response, options.allowedDomains ?? [])
+				if (redirectReason) {
+					throw new SandboxError(`音源 ${name} 请求被拦截: ${redirectReason}`)
+				}
+				const raw = new Uint8Array(await response.arrayBuffer())
+				let body: any = raw
+				if (requestOptions?.binary) {
+					finishRecord({ status: response.status, responseBody: raw })
+				} else {
+					body = Buffer.from(raw).toString('utf8')
+					finishRecord({ status: response.status, responseBody: body })
+					try {
+						body = JSON.parse(body)
+					} catch {
+						// 不是 JSON 时返回文本
+					}
+				}
+				const responseHeaders: Record<string, string> = {}
+				response.headers.forEach((value, key) => {
+					responseHeaders[key] = value
+				})
+				callback(
+					null,
+					{
+						statusCode: response.status,
+						statusMessage: response.statusText,
+						headers: responseHeaders,
+						bytes: raw.byteLength,
+						raw,
+						body,
+					},
+					body,
+				)
+			})
+			.catch((error) => {
+				finishRecord({ error })
+				callback(error, null, null)
+			})
+			.finally(() => clearTimeout(timer))
+		return () => controller.abort()
+	}
+
+	const lx = {
+		EVENT_NAMES,
+		version: lxApiVersion,
+		env: 'mobile',
+		currentScriptInfo: { ...info, rawScript: script },
+		request,
+		on: (eventName: string, handler: (data: any) => Promise<any>) => {
+			if (eventName !== EVENT_NAMES.request) {
+				return Promise.reject(new SandboxError(`不支持的事件: ${eventName}`))
+			}
+			requestHandler = handler
+			return Promise.resolve()
+		},
+		send: (eventName: string, data: any) => {
+			switch (eventName) {
+				case EVENT_NAMES.inited:
+					handleInited(data)
+					break
+				case EVENT_NAMES.updateAlert:
+					handleUpdateAlert(data)
+					break
+				default:
+					return Promise.reject(new SandboxError(`不支持的事件: ${eventName}`))
+			}
+			return Promise.resolve()
+		},
+		utils: {
+			crypto: lxCrypto,
+			buffer: lxBuffer,
+		},
+	}
+
+	try {
+		runSourceScript(script, {
+			name,
+			allowedDomains: options.allowedDomains,
+			globals: { ...options.globals, lx },
+		})
+	} catch (error) {
+		clearTimeout(initTimer)
+		rejectReady(error)
+	}
+
+	/** 发送请求事件，source 不支持该操作时抛出错误 */
+	const callRequest = async (action: LxRequestAction, info: Record<string, any>) => {
+		const sources = await ready
+		const sourceInfo = sources[defaultSource]
+		if (!sourceInfo?.actions.includes(action)) {
+			throw new SandboxError(`音源 ${name} 不支持 ${defaultSource} 平台的 ${action}`)
+		}
+		if (!requestHandler) {
+			throw new SandboxError(`音源 ${name} 没有注册 request 事件`)
+		}
+		let timer: ReturnType<typeof setTimeout> | undefined
+		try {
+			return await Promise.race([
+				requestHandler({ source: defaultSource, action, info }),
+				new Promise((_, reject) => {
+					timer = setTimeout(
+						() => reject(new SandboxError(`音源 ${name} 的 ${action} 请求超时`)),
+						timeout,
+					)
+				}),
+			])
+		} finally {
+			clearTimeout(timer)
+		}
+	}
+
+	return {
+		info,
+		ready,
+		getMusicUrl: async (title, artist, id, quality) => {
+			const url = await callRequest('musicUrl', {
+				type: quality,
+				musicInfo: toLxMusicInfo({ id, title, artist }, defaultSource),
+			})
+			return verifyUrl(url)
+		},
+		getLyric: async (musicItem) => {
+			try {
+				const lyricInfo = await callRequest('lyric', {
+					musicInfo: toLxMusicInfo(musicItem, defaultSource),
+				})
+				return verifyLyricInfo(lyricInfo)
+			} catch (error) {
+				logError(`音源 ${name} 获取歌词失败:`, error)
+				return null
+			}
+		},
+		getPic: async (musicItem) => {
+			try {
+				const url = await callRequest('pic', {
+					musicInfo: toLxMusicInfo(musicItem, defaultSource),
+				})
+				return verifyUrl(url)
+			} catch (error) {
+				logError(`音源 ${name} 获取封面失败:`, error)
+				return null
+			}
+		},
+	}
+}
+
+/**
+ * 获取洛雪音乐自定义源支持的音质，从高到低
+ * @param sources 初始化时声明的平台
+ */
+export const getLxQualityOrder = (sources: Partial<LX.UserApi.UserApiSources>) =>
+	defaultQualityOrder.filter((quality) => sources[defaultSource]?.qualitys.includes(quality))
+
+/**
+ * 导入洛雪音乐自定义源，等待初始化成功后返回音源信息
+ * @param script 脚本内容
+ */
+export async function createLxMusicApi(script: string): Promise<IMusic.MusicApi> {
+	const lxUserApi = loadLxUserApi(script)
+	const sources = await lxUserApi.ready
+	if (!sources[defaultSource]?.actions.includes('musicUrl')) {
+		throw new SandboxError(`音源 ${lxUserApi.info.name} 不支持 QQ 音乐(${defaultSource})的歌曲链接`)
+	}
+	const qualityOrder = getLxQualityOrder(sources)
+	return {
+		id: getLxMusicApiId(lxUserApi.info),
+		platform: defaultSource,
+		author: lxUserApi.info.author,
+		name: lxUserApi.info.name,
+		version: lxUserApi.info.version,
+		srcUrl: '',
+		homepage: lxUserApi.info.homepage,
+		script,
+		isSelected: false,
+		isLxUserApi: true,
+		lxSources: sources,
+		qualityOrder: qualityOrder.length ? qualityOrder : undefined,
+		getMusicUrl: lxUserApi.getMusicUrl,
+		getLyric: lxUserApi.getLyric,
+		getPic: lxUserApi.getPic,
+	}
+}
@@ -0,0 +1,127 @@
+/**
+ * 播放链接和歌词的内存缓存
+ *
+ * 播放链接按 getMediaKey() + 音质 缓存，过期后需重新从音源获取；歌词按 getMediaKey() 缓存
+ */
+
+import type { IResolvedMusicUrl } from '@/helpers/musicApiResolver'
+import { getMediaKey } from '@/utils/mediaItem'
+
+/** 播放链接默认有效期(ms)，大部分音源返回的链接有效期在半小时以上 */
+export const defaultMusicUrlTTL = 20 * 60 * 1000
+/** 最多缓存的条目数 */
+const maxCacheSize = 200
+
+export interface IMusicUrlCacheItem {
+	url: string
+	/** 实际获取到的音质 */
+	quality: IMusic.IQualityKey
+	musicApiId?: string
+	musicApiName?: string
+	/** 过期时间戳 */
+	expiresAt: number
+}
+
+const musicUrls = new Map<string, IMusicUrlCacheItem>()
+const lyrics = new Map<string, string>()
+
+const getMusicUrlKey = (musicItem: ICommon.IMediaBase, quality: IMusic.IQualityKey) =>
+	`${getMediaKey(musicItem)}@${quality}`
+
+/** 超出容量时按插入顺序淘汰最早的条目 */
+function trim<T>(cache: Map<string, T>) {
+	while (cache.size > maxCacheSize) {
+		cache.delete(cache.keys().next().value)
+	}
+}
+
+/**
+ * 获取未过期的播放链接
+ * @param musicItem 歌曲
+ * @param quality 请求的音质
+ */
+function getMusicUrl(musicItem: ICommon.IMediaBase, quality: IMusic.IQualityKey) {
+	const key = getMusicUrlKey(musicItem, quality)
+	const cacheItem = musicUrls.get(key)
+	if (!cacheItem) {
+		return null
+	}
+	if (cacheItem.expiresAt <= Date.now()) {
+		musicUrls.delete(key)
+		return null
+	}
+	return cacheItem
+}
+
+/**
+ * 缓存播放链接
+ * @param musicItem 歌曲
+ * @param quality 请求的音质，实际音质可能因降级而不同
+ * @param resolved 音源返回的结果
+ */
+function setMusicUrl(
+	musicItem: ICommon.IMediaBase,
+	quality: IMusic.IQualityKey,
+	resolved: IResolvedMusicUrl,
+): IMusicUrlCacheItem {
+	const cacheItem: IMusicUrlCacheItem = {
+		url: resolved.url,
+		quality: resolved.quality,
+		musicApiId: resolved.musicApi.id,
+		musicApiName: resolved.musicApi.name,
+		expiresAt: Date.now() + (resolved.musicApi.urlTTL || defaultMusicUrlTTL),
+	}
+	const key = getMusicUrlKey(musicItem, quality)
+	musicUrls.delete(key)
+	musicUrls.set(key, cacheItem)
+	trim(musicUrls)
+	return cacheItem
+}
+
+/**
+ * 使播放链接失效
+ * @param musicItem 歌曲
+ * @param quality 为空时删除该歌曲所有音质的链接
+ */
+function invalidateMusicUrl(musicItem: ICommon.IMediaBase, quality?: IMusic.IQualityKey) {
+	if (quality) {
+		musicUrls.delete(getMusicUrlKey(musicItem, quality))
+		return
+	}
+	const prefix = `${getMediaKey(musicItem)}@`
+	for (const key of [...musicUrls.keys()]) {
+		if (key.startsWith(prefix)) {
+			musicUrls.delete(key)
+		}
+	}
+}
+
+/** 获取缓存的歌词 */
+function getLyric(musicItem: ICommon.IMediaBase) {
+	return lyrics.get(getMediaKey(musicItem)) ?? null
+}
+
+/** 缓存歌词 */
+function setLyric(musicItem: ICommon.IMediaBase, lyric: string) {
+	const key = getMediaKey(musicItem)
+	lyrics.delete(key)
+	lyrics.set(key, lyric)
+	trim(lyrics)
+}
+
+/** 清空所有缓存 */
+function clear() {
+	musicUrls.clear()
+	lyrics.clear()
+}
+
+const MediaCache = {
+	getMusicUrl,
+	setMusicUrl,
+	invalidateMusicUrl,
+	getLyric,
+	setLyric,
+	clear,
+}
+
+export default MediaCache
@@ -0,0 +1,153 @@
+/**
+ * 多音源链式解析
+ *
+ * 按优先级依次尝试每个音源，每个音源按自己的音质阶梯逐级降级，全部失败才放弃
+ */
+
+import { APIError } from '@/helpers/errors/MusicError'
+import { logError, logInfo } from '@/helpers/logger'
+
+/** 单次请求默认超时(ms) */
+export const defaultMusicApiTimeout = 5000
+/** 默认音质降级顺序 */
+export const defaultQualityOrder: IMusic.IQualityKey[] = ['flac', '320k', '128k']
+
+export interface IResolvedMusicUrl {
+	url: string
+	/** 实际获取到的音质 */
+	quality: IMusic.IQualityKey
+	/** 实际提供链接的音源 */
+	musicApi: IMusic.MusicApi
+}
+
+/** 单个音源的尝试结果 */
+export interface IResolveAttempt {
+	/** 该音源所有音质尝试的总耗时(ms) */
+	latency: number
+	/** 成功时获取到的音质 */
+	quality?: IMusic.IQualityKey
+}
+
+/** 每个音源尝试结束后的回调，error 为空代表成功 */
+type ResolveResultCallback = (
+	musicApi: IMusic.MusicApi,
+	error?: Error,
+	attempt?: IResolveAttempt,
+) => void
+
+const withTimeout = <T>(promise: Promise<T>, ms: number) =>
+	new Promise<T>((resolve, reject) => {
+		const timer = setTimeout(() => reject(new Error('请求超时')), ms)
+		promise.then(
+			(value) => {
+				clearTimeout(timer)
+				resolve(value)
+			},
+			(error) => {
+				clearTimeout(timer)
+				reject(error)
+			},
+		)
+	})
+
+/**
+ * 获取音源的音质阶梯，从期望音质开始逐级降低
+ * @param musicApi 音源
+ * @param preferredQuality 期望音质
+ */
+export function getQualityLadder(
+	musicApi: IMusic.MusicApi,
+	preferredQuality: IMusic.IQualityKey,
+): IMusic.IQualityKey[] {
+	const qualityOrder = musicApi.qualityOrder?.length ? musicApi.qualityOrder : defaultQualityOrder
+	const index = qualityOrder.indexOf(preferredQuality)
+	return index === -1 ? qualityOrder : qualityOrder.slice(index)
+}
+
+/**
+ * 获取比指定音质低一级的音质，已是最低音质时返回自身
+ * @param quality 音质
+ */
+export function getLowerQuality(quality: IMusic.IQualityKey): IMusic.IQualityKey {
+	const index = defaultQualityOrder.indexOf(quality)
+	if (index === -1 || index === defaultQualityOrder.length - 1) {
+		return quality
+	}
+	return defaultQualityOrder[index + 1]
+}
+
+/**
+ * 按优先级排列音源：当前选中的音源在最前，其余按用户设置的顺序，未设置顺序的排在最后
+ * @param musicApis 所有音源
+ * @param order 用户设置的音源 id 顺序
+ * @param selectedId 当前选中的音源 id
+ */
+export function sortMusicApis(
+	musicApis: IMusic.MusicApi[],
+	order: string[] = [],
+	selectedId?: string,
+): IMusic.MusicApi[] {
+	const rank = (musicApi: IMusic.MusicApi) => {
+		if (musicApi.id === selectedId) {
+			return -1
+		}
+		const index = order.indexOf(musicApi.id)
+		return index === -1 ? order.length : index
+	}
+	// 排序稳定，未设置顺序的保持导入顺序
+	return [...musicApis].sort((a, b) => rank(a) - rank(b))
+}
+
+/**
+ * 依次通过各音源获取播放链接
+ * @param musicItem 歌曲
+ * @param musicApis 已加载脚本并按优先级排好的音源
+ * @param preferredQuality 期望音质
+ * @param onResult 每个音源尝试结束后的回调
+ * @returns 第一个成功的结果，全部失败时抛出 APIError
+ */
+export async function resolveMusicUrl(
+	musicItem: IMusic.IMusicItem,
+	musicApis: IMusic.MusicApi[],
+	preferredQuality: IMusic.IQualityKey,
+	onResult?: ResolveResultCallback,
+): Promise<IResolvedMusicUrl> {
+	const failures: string[] = []
+
+	for (const musicApi of musicApis) {
+		if (typeof musicApi.getMusicUrl !== 'function') {
+			const error = new Error('getMusicUrl 方法不可用')
+			failures.push(`${musicApi.name}: ${error.message}`)
+			onResult?.(musicApi, error)
+			continue
+		}
+
+		const timeout = musicApi.timeout || defaultMusicApiTimeout
+		const startTime = Date.now()
+		let lastError: Error | null = null
+		for (const quality of getQualityLadder(musicApi, preferredQuality)) {
+			try {
+				const url: string = await withTimeout(
+					musicApi.getMusicUrl(musicItem.title, musicItem.artist, musicItem.id, quality),
+					timeout,
+				)
+				logInfo(`音源 ${musicApi.name} 返回:${url}`)
+				if (url) {
+					onResult?.(musicApi, undefined, { latency: Date.now() - startTime, quality })
+					return { url, quality, musicApi }
+				}
+				logInfo(`音源 ${musicApi.name} ${quality}音质无可用链接，尝试下一个音质`)
+			} catch (error) {
+				lastError = error
+				logError(`音源 ${musicApi.name} ${quality}音质获取失败:`, error)
+			}
+		}
+
+		const error = lastError ?? new Error('无法获取音乐URL')
+		logInfo(`音源 ${musicApi.name} 所有音质均失败，尝试下一个音源`)
+		failures.push(`${musicApi.name}: ${error.message}`)
+		onResult?.(musicApi, error, { latency: Date.now() - startTime })
+	}
+
+	throw new APIError('无法获取任何音质的音乐，请稍后重试。', failures)
+}
@@ -0,0 +1,412 @@
+/**
+ * 听歌记录上报(Scrobble)
+ *
+ * 支持 Last.fm 和 ListenBrainz 兼容的接口，服务地址可配置，未上报成功的记录保存在本地队列，之后重新提交
+ */
+
+import { toMD5 } from '@/components/utils/musicSdk/utils'
+import { APIError, NetworkError } from '@/helpers/errors/MusicError'
+import { logError, logInfo, logWarn } from '@/helpers/logger'
+import PersistStatus from '@/store/PersistStatus'
+import { getMediaKey } from '@/utils/mediaItem'
+import { GlobalState } from '@/utils/stateMapper'
+import { showToast } from '@/utils/utils'
+import { AppState } from 'react-native'
+
+export type ScrobblerType = 'lastfm' | 'listenbrainz'
+
+export interface IScrobblerConfig {
+	enabled: boolean
+	type: ScrobblerType
+	/** 服务地址，为空时使用官方地址 */
+	baseUrl?: string
+	/** Last.fm */
+	apiKey?: string
+	apiSecret?: string
+	sessionKey?: string
+	username?: string
+	/** ListenBrainz 用户 token */
+	token?: string
+}
+
+export interface IScrobble {
+	artist: string
+	track: string
+	album?: string
+	/** 歌曲时长(s) */
+	duration?: number
+	/** 开始播放的时间(s) */
+	timestamp: number
+}
+
+export const defaultBaseUrls: Record<ScrobblerType, string> = {
+	lastfm: 'https://ws.audioscrobbler.com/2.0/',
+	listenbrainz: 'https://api.listenbrainz.org',
+}
+/** 短于 30 秒的歌曲不上报 */
+const minTrackDuration = 30
+/** 播放超过一半或 4 分钟即上报 */
+const maxScrobbleThreshold = 240
+/** 每次最多提交的条数 */
+const batchSize = 50
+/** 队列最多保存的条数 */
+const maxQueueLength = 1000
+/** 提交失败后重试的间隔(ms) */
+const retryInterval = 5 * 60 * 1000
+/** Last.fm 的账号和配置错误：4 认证失败、9 session 无效、10 API key 无效、26 API key 被停用 */
+const lastfmAuthErrorCodes = [4, 9, 10, 26]
+
+export const scrobblerConfigStore = new GlobalState<IScrobblerConfig>({
+	enabled: false,
+	type: 'lastfm',
+})
+/** 待提交的记录 */
+export const scrobbleQueueStore = new GlobalState<IScrobble[]>([])
+/** 最近一次提交失败的原因，需要用户处理(如重新登录)，提交成功或修改配置后清空 */
+export const scrobbleErrorStore = new GlobalState<string | null>(null)
+
+/** 已上报的播放，避免同一次播放重复上报 */
+let scrobbledKey: string | null = null
+let isFlushing = false
+let retryTimer: ReturnType<typeof setTimeout> | null = null
+
+const getBaseUrl = (config: IScrobblerConfig) =>
+	(config.baseUrl || defaultBaseUrls[config.type]).replace(/\/+$/, '')
+
+const isConfigured = (config: IScrobblerConfig) =>
+	config.type === 'lastfm'
+		? !!(config.apiKey && config.apiSecret && config.sessionKey)
+		: !!config.token
+
+const toScrobble = (musicItem: IMusic.IMusicItem, playedAt: number, duration?: number) => ({
+	artist: musicItem.artist,
+	track: musicItem.title,
+	album: musicItem.album || undefined,
+	duration: Math.round(duration || musicItem.duration || 0) || undefined,
+	timestamp: Math.floor(playedAt / 1000),
+})
+
+/** Last.fm 签名：参数按名称排序后拼接，加上 secret 取 md5 */
+const signLastfmParams = (params: Record<string, string>, apiSecret: string) => {
+	const raw = Object.keys(params)
+		.sort()
+		.map((key) => `${key}${params[key]}`)
+		.join('')
+	return toMD5(raw + apiSecret)
+}
+
+async function requestLastfm(config: IScrobblerConfig, params: Record<string, string>) {
+	const signedParams: Record<string, string> = { ...params, api_key: config.apiKey ?? '' }
+	if (config.sessionKey && params.method !== 'auth.getMobileSession') {
+		signedParams.sk = config.sessionKey
+	}
+	signedParams.api_sig = signLastfmParams(signedParams, config.apiSecret ?? '')
+	signedParams.format = 'json'
+
+	let response: Response
+	try {
+		response = await fetch(getBaseUrl(config) + '/', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+			body: Object.entries(signedParams)
+				.map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+				.join('&'),
+		})
+	} catch (error) {
+		throw new NetworkError('无法连接到 Scrobble 服务', error)
+	}
+	const body = await response.json().catch(() => null)
+	if (!response.ok || body?.error) {
+		const message = body?.message || `HTTP ${response.status}`
+		// 服务端错误和 Last.fm 的临时错误(11/16)可以稍后重试
+		if (response.status >= 500 || body?.error === 11 || body?.error === 16) {
+			throw new NetworkError(message, body)
+		}
+		throw new APIError(message, body)
+	}
+	return body
+}
+
+async function requestListenBrainz(config: IScrobblerConfig, path: string, payload?: object) {
+	let response: Response
+	try {
+		response = await fetch(getBaseUrl(config) + path, {
+			method: payload ? 'POST' : 'GET',
+			headers: {
+				Authorization: `Token ${config.token}`,
+				'Content-Type': 'application/json',
+			},
+			body: payload ? JSON.stringify(payload) : undefined,
+		})
+	} catch (error) {
+		throw new NetworkError('无法连接到 Scrobble 服务', error)
+	}
+	const body = await response.json().catch(() => null)
+	if (!response.ok) {
+		const message = body?.error || `HTTP ${response.status}`
+		if (response.status >= 500 || response.status === 429) {
+			throw new NetworkError(message, body)
+		}
+		throw new APIError(message, { status: response.status, body })
+	}
+	return body
+}
+
+const toListenBrainzListen = (scrobble: IScrobble, withTimestamp = true) => ({
+	...(withTimestamp ? { listened_at: scrobble.timestamp } : {}),
+	track_metadata: {
+		artist_name: scrobble.artist,
+		track_name: scrobble.track,
+		release_name: scrobble.album,
+		additional_info: {
+			duration_ms: scrobble.duration ? scrobble.duration * 1000 : undefined,
+			submission_client: 'CyMusic',
+		},
+	},
+})
+
+/** 账号或配置有问题，重试也不会成功 */
+const isAuthError = (error: any) =>
+	error instanceof APIError &&
+	(lastfmAuthErrorCodes.includes(error.details?.error) || error.details?.status === 401)
+
+/** ListenBrainz 返回 400：提交的记录本身有问题 */
+const isRejectedError = (error: any) => error instanceof APIError && error.details?.status === 400
+
+/** 提交一批记录，Last.fm 逐条返回被忽略的记录，这些记录不再重新提交 */
+async function submitScrobbles(config: IScrobblerConfig, scrobbles: IScrobble[]) {
+	if (config.type === 'listenbrainz') {
+		await requestListenBrainz(config, '/1/submit-listens', {
+			listen_type: scrobbles.length === 1 ? 'single' : 'import',
+			payload: scrobbles.map((scrobble) => toListenBrainzListen(scrobble)),
+		})
+		return
+	}
+	const params: Record<string, string> = { method: 'track.scrobble' }
+	scrobbles.forEach((scrobble, index) => {
+		params[`artist[${index}]`] = scrobble.artist
+		params[`track[${index}]`] = scrobble.track
+		params[`timestamp[${index}]`] = `${scrobble.timestamp}`
+		if (scrobble.album) {
+			params[`album[${index}]`] = scrobble.album
+		}
+		if (scrobble.duration) {
+			params[`duration[${index}]`] = `${scrobble.duration}`
+		}
+	})
+	const body = await requestLastfm(config, params)
+	const results = [body?.scrobbles?.scrobble ?? []].flat()
+	const ignored = results.filter((result) => (result?.ignoredMessage?.code ?? '0') !== '0')
+	if (ignored.length) {
+		logWarn(
+			`Scrobble: ${ignored.length}条记录被忽略:`,
+			ignored.map((result) => result.ignoredMessage['#text'] || result.ignoredMessage.code),
+		)
+	}
+}
+
+/**
+ * 提交一批记录，ListenBrainz 拒绝整批时逐条重新提交，只丢弃被拒绝的记录
+ */
+async function submitBatch(config: IScrobblerConfig, batch: IScrobble[]) {
+	try {
+		await submitScrobbles(config, batch)
+	} catch (error) {
+		if (!isRejectedError(error)) {
+			throw error
+		}
+		if (batch.length === 1) {
+			logError('Scrobble: 记录被拒绝，已丢弃:', batch[0], error.message)
+			return
+		}
+		for (const scrobble of batch) {
+			await submitBatch(config, [scrobble])
+		}
+	}
+}
+
+const saveQueue = (queue: IScrobble[]) => {
+	scrobbleQueueStore.setValue(queue)
+	PersistStatus.set('scrobble.queue', queue)
+}
+
+const scheduleRetry = () => {
+	if (retryTimer) {
+		return
+	}
+	retryTimer = setTimeout(() => {
+		retryTimer = null
+		flushScrobbleQueue()
+	}, retryInterval)
+}
+
+/**
+ * 提交队列中的记录，网络错误时保留，稍后重试
+ * 账号或配置有问题时保留队列并停止提交，等用户修改配置或手动提交
+ */
+export async function flushScrobbleQueue() {
+	const config = scrobblerConfigStore.getValue()
+	if (isFlushing || !config.enabled || !isConfigured(config)) {
+		return
+	}
+	isFlushing = true
+	try {
+		while (scrobbleQueueStore.getValue().length) {
+			const batch = scrobbleQueueStore.getValue().slice(0, batchSize)
+			try {
+				await submitBatch(config, batch)
+				logInfo(`Scrobble: 已提交${batch.length}条记录`)
+			} catch (error) {
+				if (error instanceof NetworkError) {
+					logWarn('Scrobble: 提交失败，稍后重试:', error.message)
+					scheduleRetry()
+					return
+				}
+				const message = isAuthError(error)
+					? `账号验证失败，请重新设置账号: ${error.message}`
+					: `提交失败: ${error.message}`
+				logError('Scrobble: 提交失败，保留队列:', error)
+				// 同样的错误只提示一次
+				if (scrobbleErrorStore.getValue() !== message) {
+					showToast('Scrobble', message, 'error')
+				}
+				scrobbleErrorStore.setValue(message)
+				return
+			}
+			scrobbleErrorStore.setValue(null)
+			// 提交期间可能有新的记录加入队列，只移除已处理的部分
+			saveQueue(scrobbleQueueStore.getValue().slice(batch.length))
+		}
+	} finally {
+		isFlushing = false
+	}
+}
+
+/**
+ * 更新"正在播放"，失败不影响播放
+ * @param musicItem 歌曲
+ */
+export async function updateNowPlaying(musicItem: IMusic.IMusicItem) {
+	const config = scrobblerConfigStore.getValue()
+	if (!config.enabled || !isConfigured(config)) {
+		return
+	}
+	const scrobble = toScrobble(musicItem, Date.now())
+	try {
+		if (config.type === 'listenbrainz') {
+			await requestListenBrainz(config, '/1/submit-listens', {
+				listen_type: 'playing_now',
+				payload: [toListenBrainzListen(scrobble, false)],
+			})
+		} else {
+			await requestLastfm(config, {
+				method: 'track.updateNowPlaying',
+				artist: scrobble.artist,
+				track: scrobble.track,
+				...(scrobble.album ? { album: scrobble.album } : {}),
+				...(scrobble.duration ? { duration: `${scrobble.duration}` } : {}),
+			})
+		}
+		// 网络恢复了，顺便提交积压的记录
+		flushScrobbleQueue()
+	} catch (error) {
+		logWarn('Scrobble: 更新正在播放失败:', error.message)
+	}
+}
+
+/**
+ * 播放进度更新时检查是否达到上报条件
+ * @param musicItem 歌曲
+ * @param playedAt 开始播放的时间戳
+ * @param listenedDuration 实际收听的时长(s)
+ * @param duration 歌曲时长(s)
+ */
+export function checkScrobble(
+	musicItem: IMusic.IMusicItem,
+	playedAt: number,
+	listenedDuration: number,
+	duration: number,
+) {
+	const config = scrobblerConfigStore.getValue()
+	if (!config.enabled || duration < minTrackDuration) {
+		return
+	}
+	const key = `${getMediaKey(musicItem)}@${playedAt}`
+	if (scrobbledKey === key) {
+		return
+	}
+	if (listenedDuration < Math.min(duration / 2, maxScrobbleThreshold)) {
+		return
+	}
+	scrobbledKey = key
+	logInfo('Scrobble: 加入队列:', musicItem.title)
+	saveQueue(
+		[...scrobbleQueueStore.getValue(), toScrobble(musicItem, playedAt, duration)].slice(
+			-maxQueueLength,
+		),
+	)
+	flushScrobbleQueue()
+}
+
+/** 修改配置 */
+export function setScrobblerConfig(config: Partial<IScrobblerConfig>) {
+	const newConfig = { ...scrobblerConfigStore.getValue(), ...config }
+	scrobblerConfigStore.setValue(newConfig)
+	scrobbleErrorStore.setValue(null)
+	PersistStatus.set('scrobble.config', newConfig)
+}
+
+/**
+ * Last.fm 使用用户名和密码获取 session key
+ * @returns 成功时返回用户名
+ */
+export async function loginLastfm(username: string, password: string) {
+	const body = await requestLastfm(
+		{ ...scrobblerConfigStore.getValue(), type: 'lastfm', sessionKey: undefined },
+		{ method: 'auth.getMobileSession', username, password },
+	)
+	const sessionKey = body?.session?.key
+	if (!sessionKey) {
+		throw new APIError('登录失败，没有获取到 session', body)
+	}
+	setScrobblerConfig({ sessionKey, username: body.session.name || username })
+	return body.session.name || username
+}
+
+/**
+ * 测试当前配置能否连接
+ * @returns 成功时返回用户名
+ */
+export async function testScrobbler(): Promise<string> {
+	const config = scrobblerConfigStore.getValue()
+	if (!isConfigured(config)) {
+		throw new APIError('请先设置账号信息')
+	}
+	if (config.type === 'listenbrainz') {
+		const body = await requestListenBrainz(config, '/1/validate-token')
+		if (!body?.valid) {
+			throw new APIError(body?.message || 'Token 无效', body)
+		}
+		return body.user_name
+	}
+	const body = await requestLastfm(config, { method: 'user.getInfo' })
+	return body?.user?.name ?? config.username
+}
+
+/** 从本地恢复配置和队列，在播放器初始化时调用 */
+export function setupScrobbler() {
+	const config = PersistStatus.get('scrobble.config')
+	if (config) {
+		scrobblerConfigStore.setValue(config)
+	}
+	const queue = PersistStatus.get('scrobble.queue')
+	if (Array.isArray(queue)) {
+		scrobbleQueueStore.setValue(queue)
+	}
+	AppState.addEventListener('change', (nextAppState) => {
+		if (nextAppState === 'active') {
+			flushScrobbleQueue()
+		}
+	})
+	flushScrobbleQueue()
+}
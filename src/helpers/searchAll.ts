@@ -1,6 +1,7 @@
 // helpers/searchAll.ts
 
 import { searchArtist, searchMusic } from '@/helpers/userApi/xiaoqiu'
+import { filterDisliked } from '@/store/dislikeList'
 import { Track } from 'react-native-track-player'
 
 const PAGE_SIZE = 20
@@ -35,7 +36,8 @@ const searchAll = async (
 	const hasMore = result.data.length === PAGE_SIZE
 
 	return {
-		data: result.data as Track[],
+		// 只过滤歌曲，搜索歌手时保留
+		data: (type === 'songs' ? filterDisliked(result.data) : result.data) as Track[],
 		hasMore,
 	}
 }
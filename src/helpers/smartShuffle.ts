@@ -0,0 +1,70 @@
+/**
+ * 智能随机排序
+ *
+ * 1. 按权重随机(权重越大越靠前的概率越高)
+ * 2. 同一歌手的歌曲尽量不相邻
+ * 3. 指定的歌曲(如上一轮最后播放的)放到最后，避免刚听过又马上播放
+ */
+
+/** 相邻多少首内尽量不出现同一歌手 */
+const artistSpreadDistance = 3
+/** 为同一歌手换位置时最多向后查找的数量 */
+const maxLookahead = 50
+
+export interface ISmartShuffleOptions<T> {
+	/** 权重，默认都为 1 */
+	getWeight?: (item: T) => number
+	/** 获取歌手，用于打散同一歌手 */
+	getArtist?: (item: T) => string
+	/** 需要排到最后的歌曲 */
+	isRecent?: (item: T) => boolean
+}
+
+/** 加权随机排序(Efraimidis-Spirakis)：每项取 random^(1/weight) 后从大到小排序 */
+function weightedShuffle<T>(items: T[], getWeight?: (item: T) => number) {
+	return items
+		.map((item) => {
+			const weight = Math.max(getWeight?.(item) ?? 1, 0.01)
+			return { item, key: Math.pow(Math.random(), 1 / weight) }
+		})
+		.sort((a, b) => b.key - a.key)
+		.map(({ item }) => item)
+}
+
+/** 依次取出，和最近几首歌手相同时向后找一首不同歌手的 */
+function spreadArtists<T>(items: T[], getArtist: (item: T) => string) {
+	const pending = [...items]
+	const result: T[] = []
+	while (pending.length) {
+		const recentArtists = result.slice(-artistSpreadDistance).map(getArtist)
+		let index = pending
+			.slice(0, maxLookahead)
+			.findIndex((item) => !recentArtists.includes(getArtist(item)))
+		if (index === -1) {
+			index = 0
+		}
+		result.push(pending.splice(index, 1)[0])
+	}
+	return result
+}
+
+/**
+ * 生成随机顺序
+ * @param items 歌曲
+ * @param options 选项
+ */
+export default function smartShuffle<T>(items: T[], options: ISmartShuffleOptions<T> = {}): T[] {
+	const { getWeight, getArtist, isRecent } = options
+	const shuffleGroup = (group: T[]) => {
+		const shuffled = weightedShuffle(group, getWeight)
+		return getArtist ? spreadArtists(shuffled, getArtist) : shuffled
+	}
+
+	if (!isRecent) {
+		return shuffleGroup(items)
+	}
+	return [
+		...shuffleGroup(items.filter((item) => !isRecent(item))),
+		...shuffleGroup(items.filter((item) => isRecent(item))),
+	]
+}
@@ -0,0 +1,221 @@
+/**
+ * 音源目录订阅
+ *
+ * 目录是一个 JSON 文件，列出可导入的音源，如：
+ * ```json
+ * {
+ *   "name": "示例目录",
+ *   "sources": [
+ *     {
+ *       "name": "示例音源",
+ *       "version": "1.0.0",
+ *       "srcUrl": "https://example.com/source.js",
+ *       "platforms": ["tx", "kw"],
+ *       "qualities": ["128k", "320k", "flac"]
+ *     }
+ *   ]
+ * }
+ * ```
+ * 已导入的音源通过目录中填写的 id 或 srcUrl 与目录中的条目对应，导入时目录填写的 id 优先于脚本中的 id。
+ */
+
+import { logInfo } from '@/helpers/logger'
+import {
+	checkMusicApiUpdate,
+	compareVersion,
+	fetchScript,
+	promptMusicApiUpdates,
+} from '@/helpers/sourceUpdater'
+import myTrackPlayer, { musicApiStore } from '@/helpers/trackPlayerIndex'
+import PersistStatus from '@/store/PersistStatus'
+import safeParse from '@/utils/safeParse'
+import { showToast } from '@/utils/utils'
+import * as DocumentPicker from 'expo-document-picker'
+import RNFS from 'react-native-fs'
+
+/** 目录中的一个音源 */
+export interface ISourceCatalogEntry {
+	/** 音源 id，不填时按 srcUrl 对应已导入的音源 */
+	id?: string
+	name: string
+	version: string
+	/** 脚本地址 */
+	srcUrl: string
+	author?: string
+	description?: string
+	/** 支持的平台，如 tx、kw */
+	platforms?: string[]
+	/** 支持的音质，如 128k、flac */
+	qualities?: string[]
+}
+
+/** 订阅的目录 */
+export interface ISourceCatalogSubscription {
+	/** 目录地址，本地文件为文件路径 */
+	url: string
+	name: string
+	/** 本地文件导入的目录不能刷新 */
+	isLocal?: boolean
+	sources: ISourceCatalogEntry[]
+	/** 最后获取的时间戳 */
+	updateTime: number
+}
+
+export type CatalogEntryStatus = 'notInstalled' | 'installed' | 'updatable'
+
+const toStringArray = (value: any) =>
+	Array.isArray(value) ? value.filter((item) => typeof item === 'string') : undefined
+
+/**
+ * 解析目录文件，忽略缺少名称或脚本地址的条目
+ * @param text 目录文件内容
+ * @param fallbackName 目录没有名称时使用的名称
+ */
+export function parseSourceCatalog(text: string, fallbackName: string) {
+	const catalog = safeParse<any>(text)
+	// 也支持直接写成音源数组
+	const sources = Array.isArray(catalog) ? catalog : catalog?.sources
+	if (!Array.isArray(sources)) {
+		throw new Error('目录格式错误：缺少 sources 列表')
+	}
+	const entries: ISourceCatalogEntry[] = sources
+		.filter(
+			(source) =>
+				typeof source?.name === 'string' &&
+				typeof source?.srcUrl === 'string' &&
+				/^https?:\/\//i.test(source.srcUrl),
+		)
+		.map((source) => ({
+			id: typeof source.id === 'string' ? source.id : undefined,
+			name: source.name,
+			version: String(source.version ?? ''),
+			srcUrl: source.srcUrl,
+			author: typeof source.author === 'string' ? source.author : undefined,
+			description: typeof source.description === 'string' ? source.description : undefined,
+			platforms: toStringArray(source.platforms),
+			qualities: toStringArray(source.qualities),
+		}))
+	return {
+		name:
+			(!Array.isArray(catalog) && typeof catalog.name === 'string' && catalog.name) || fallbackName,
+		sources: entries,
+	}
+}
+
+/** 获取订阅的目录 */
+export const getSourceCatalogs = () => PersistStatus.get('music.sourceCatalogs') ?? []
+
+/** 保存目录，同一地址的目录会被覆盖 */
+const saveSourceCatalog = (subscription: ISourceCatalogSubscription) => {
+	const catalogs = getSourceCatalogs()
+	const index = catalogs.findIndex((catalog) => catalog.url === subscription.url)
+	PersistStatus.set(
+		'music.sourceCatalogs',
+		index === -1
+			? [...catalogs, subscription]
+			: catalogs.map((catalog, i) => (i === index ? subscription : catalog)),
+	)
+	logInfo(`音源目录 ${subscription.name} 已更新，共 ${subscription.sources.length} 个音源`)
+	return subscription
+}
+
+/**
+ * 订阅远程目录，已订阅时刷新
+ * @param url 目录地址
+ */
+export async function subscribeSourceCatalog(url: string) {
+	const catalog = parseSourceCatalog(await fetchScript(url), url)
+	return saveSourceCatalog({ url, ...catalog, updateTime: Date.now() })
+}
+
+/**
+ * 从本地文件导入目录
+ * @returns 取消选择时返回 null
+ */
+export async function importSourceCatalogFile() {
+	const result = await DocumentPicker.getDocumentAsync({
+		type: 'application/json',
+		copyToCacheDirectory: false,
+	})
+	if (result.canceled === true) {
+		return null
+	}
+	const file = result.assets[0]
+	const text = await RNFS.readFile(decodeURIComponent(file.uri), 'utf8')
+	const catalog = parseSourceCatalog(text, file.name)
+	return saveSourceCatalog({ url: file.uri, ...catalog, isLocal: true, updateTime: Date.now() })
+}
+
+/**
+ * 取消订阅，不影响已导入的音源
+ * @param url 目录地址
+ */
+export function unsubscribeSourceCatalog(url: string) {
+	PersistStatus.set(
+		'music.sourceCatalogs',
+		getSourceCatalogs().filter((catalog) => catalog.url !== url),
+	)
+}
+
+/**
+ * 查找目录条目对应的已导入音源，目录填写了 id 时优先按 id 查找，找不到再按 srcUrl
+ * @param entry 目录中的音源
+ * @param musicApis 已导入的音源
+ */
+export const findInstalledMusicApi = (entry: ISourceCatalogEntry, musicApis: IMusic.MusicApi[]) =>
+	(entry.id ? musicApis.find((musicApi) => musicApi.id === entry.id) : undefined) ??
+	musicApis.find((musicApi) => musicApi.srcUrl === entry.srcUrl)
+
+/** 目录条目的导入状态，目录中的版本更新时为可更新 */
+export function getCatalogEntryStatus(
+	entry: ISourceCatalogEntry,
+	musicApis: IMusic.MusicApi[],
+): CatalogEntryStatus {
+	const installed = findInstalledMusicApi(entry, musicApis)
+	if (!installed) {
+		return 'notInstalled'
+	}
+	return compareVersion(entry.version, installed.version) > 0 ? 'updatable' : 'installed'
+}
+
+/**
+ * 导入目录中的音源，导入前需要用户确认信任
+ * @returns 是否已导入
+ */
+export async function installCatalogSource(entry: ISourceCatalogEntry) {
+	const script = await fetchScript(entry.srcUrl)
+	// 记录目录中的脚本地址用于检查更新，目录填写的 id 优先于脚本中的 id
+	return myTrackPlayer.importMusicApi(script, {
+		name: entry.name,
+		srcUrl: entry.srcUrl,
+		id: entry.id,
+	})
+}
+
+/**
+ * 更新已导入的音源，沿用检查更新的流程：显示更新内容，确认后更新并保留旧版本用于回滚
+ * @param entry 目录中的音源
+ */
+export async function updateCatalogSource(entry: ISourceCatalogEntry) {
+	const installed = findInstalledMusicApi(entry, musicApiStore.getValue() || [])
+	if (!installed) {
+		return
+	}
+	const update = await checkMusicApiUpdate({ ...installed, srcUrl: entry.srcUrl })
+	if (!update) {
+		showToast('提示', `${installed.name} 已是最新版本`, 'info')
+		return
+	}
+	promptMusicApiUpdates([update])
+}
+
+/**
+ * 删除目录条目对应的已导入音源
+ * @param entry 目录中的音源
+ */
+export function removeCatalogSource(entry: ISourceCatalogEntry) {
+	const installed = findInstalledMusicApi(entry, musicApiStore.getValue() || [])
+	if (installed) {
+		myTrackPlayer.deleteMusicApiById(installed.id)
+	}
+}
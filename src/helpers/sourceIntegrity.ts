@@ -0,0 +1,228 @@
+/**
+ * 音源脚本校验
+ *
+ * 导入前计算脚本的哈希，校验签名，并显示脚本头部注释中的信息让用户确认是否信任。
+ * 这些都不需要执行脚本，用户确认信任后脚本才会被执行
+ *
+ * 签名写在脚本的注释中：` * @signature <base64>`，计算哈希时忽略这一行。
+ * 签名为用 RSA 私钥对哈希(sha256 十六进制字符串)签名的结果，如：
+ * `echo -n <哈希> | openssl rsautl -sign -inkey private.pem | base64`
+ */
+
+import { RSA_PADDING, rsaEncryptSync } from '@/components/utils/nativeModules/crypto'
+import { logError, logInfo } from '@/helpers/logger'
+import { matchInfo } from '@/helpers/userApiHelper'
+import PersistStatus from '@/store/PersistStatus'
+import { Buffer } from 'buffer'
+import CryptoJS from 'crypto-js'
+import { Alert } from 'react-native'
+
+/** 用户信任的公钥 */
+export interface ITrustedSourceKey {
+	name: string
+	/** 公钥内容，不包含 PEM 的首尾行 */
+	key: string
+}
+
+/** 导入的脚本来源 */
+export interface IScriptSource {
+	/** 头部注释没有名称时显示的名称，如文件名或地址 */
+	name: string
+	/** 导入地址 */
+	srcUrl?: string
+	/** 指定的音源 id，如目录中填写的 id，优先于脚本中的 id */
+	id?: string
+}
+
+/** 签名校验结果 */
+export type SignatureStatus = 'unsigned' | 'verified' | 'invalid'
+
+export interface IScriptIntegrity {
+	/** 脚本内容的 sha256 */
+	hash: string
+	signatureStatus: SignatureStatus
+	/** 验证通过的公钥名称 */
+	signatureKey?: string
+}
+
+const signatureRegExp = /^[ \t]*(?:\/\/|\*)?[ \t]*@signature[ \t]+([A-Za-z0-9+/=]+)[ \t]*\r?\n?/m
+
+/** 获取用户信任的公钥 */
+export const getTrustedKeys = () => PersistStatus.get('music.trustedSourceKeys') ?? []
+
+/** 去掉 PEM 的首尾行和空白 */
+const normalizeKey = (key: string) =>
+	key
+		.replace(/-----(BEGIN|END) [A-Z ]+-----/g, '')
+		.replace(/\s+/g, '')
+		.trim()
+
+/**
+ * 添加信任的公钥，同名的会被覆盖
+ * @param name 名称
+ * @param key PEM 格式或 base64 的公钥
+ */
+export function addTrustedKey(name: string, key: string) {
+	const normalizedKey = normalizeKey(key)
+	if (!name.trim() || !normalizedKey) {
+		return false
+	}
+	PersistStatus.set('music.trustedSourceKeys', [
+		...getTrustedKeys().filter((item) => item.name !== name.trim()),
+		{ name: name.trim(), key: normalizedKey },
+	])
+	return true
+}
+
+/**
+ * 删除信任的公钥
+ * @param name 名称
+ */
+export function removeTrustedKey(name: string) {
+	PersistStatus.set(
+		'music.trustedSourceKeys',
+		getTrustedKeys().filter((item) => item.name !== name),
+	)
+}
+
+/** 计算脚本的哈希，不包含签名行 */
+export const getScriptHash = (script: string) =>
+	CryptoJS.SHA256(script.replace(signatureRegExp, '')).toString()
+
+/** 去掉 PKCS#1 v1.5 签名填充或左侧补的 0 */
+const unpadSignature = (bytes: Buffer) => {
+	if (bytes[0] === 0 && bytes[1] === 1) {
+		const separatorIndex = bytes.indexOf(0, 2)
+		return separatorIndex === -1 ? bytes : bytes.subarray(separatorIndex + 1)
+	}
+	let start = 0
+	while (start < bytes.length && bytes[start] === 0) {
+		start++
+	}
+	return bytes.subarray(start)
+}
+
+/**
+ * 用公钥校验签名：对签名做 RSA 公钥运算，结果应为哈希
+ * @returns 签名是否由该公钥对应的私钥生成
+ */
+const verifySignature = (hash: string, signature: string, key: string) => {
+	try {
+		const decrypted = Buffer.from(rsaEncryptSync(signature, key, RSA_PADDING.NoPadding), 'base64')
+		return unpadSignature(decrypted).toString('utf8') === hash
+	} catch (error) {
+		logError('校验音源签名失败:', error)
+		return false
+	}
+}
+
+/**
+ * 计算哈希并用信任的公钥校验签名
+ * @param script 脚本内容
+ */
+export function checkScriptIntegrity(script: string): IScriptIntegrity {
+	const hash = getScriptHash(script)
+	const signature = signatureRegExp.exec(script)?.[1]
+	if (!signature) {
+		return { hash, signatureStatus: 'unsigned' }
+	}
+	const trustedKey = getTrustedKeys().find((item) => verifySignature(hash, signature, item.key))
+	return trustedKey
+		? { hash, signatureStatus: 'verified', signatureKey: trustedKey.name }
+		: { hash, signatureStatus: 'invalid' }
+}
+
+/**
+ * 加载脚本前检查内容是否与导入时一致
+ * @returns 没有记录哈希的旧音源视为一致
+ */
+export const isScriptUnchanged = (musicApi: IMusic.MusicApi) =>
+	!musicApi.hash || musicApi.hash === getScriptHash(musicApi.script)
+
+/** 签名状态的说明 */
+export function formatSignatureStatus(
+	integrity: Pick<IScriptIntegrity, 'signatureStatus' | 'signatureKey'>,
+) {
+	switch (integrity.signatureStatus) {
+		case 'verified':
+			return `签名已验证 (${integrity.signatureKey})`
+		case 'invalid':
+			return '⚠️ 签名无法用信任的公钥验证'
+		default:
+			return '未签名'
+	}
+}
+
+/** 读取脚本头部注释中的信息，没有头部注释时返回 null */
+export const getScriptHeaderInfo = (script: string) => {
+	const header = /^\s*\/\*[\S\s]+?\*\//.exec(script)
+	return header ? matchInfo(header[0]) : null
+}
+
+/**
+ * 生成信任提示的内容
+ * @param script 要导入的脚本
+ * @param source 脚本来源
+ * @param integrity 校验结果
+ * @param previous 已导入的同一音源
+ */
+export function formatTrustMessage(
+	script: string,
+	source: IScriptSource,
+	integrity: IScriptIntegrity,
+	previous?: IMusic.MusicApi,
+) {
+	const header = getScriptHeaderInfo(script)
+	const lines = [
+		header ? '' : '⚠️ 脚本没有头部注释，无法显示音源信息',
+		`名称: ${header?.name || source.name}`,
+		`作者: ${header?.author || '未知'}`,
+		`版本: ${header?.version || '未知'}`,
+		header?.homepage ? `主页: ${header.homepage}` : '',
+		header?.description ? `说明: ${header.description}` : '',
+		source.srcUrl ? `来源: ${source.srcUrl}` : '',
+		`哈希: ${integrity.hash.slice(0, 16)}`,
+		formatSignatureStatus(integrity),
+	]
+	if (previous) {
+		lines.push(
+			previous.hash === integrity.hash
+				? '脚本内容与已导入的相同'
+				: `⚠️ 将覆盖已导入的版本 ${previous.version || ''}，脚本内容已变化`,
+		)
+	}
+	return lines.filter(Boolean).join('\n')
+}
+
+/**
+ * 显示脚本信息，让用户确认是否信任，在执行脚本之前调用
+ * @param script 要导入的脚本
+ * @param source 脚本来源
+ * @param previous 已导入的同一音源
+ * @returns 信任时返回校验结果，否则返回 null
+ */
+export function confirmSourceTrust(
+	script: string,
+	source: IScriptSource,
+	previous?: IMusic.MusicApi,
+) {
+	const integrity = checkScriptIntegrity(script)
+	const isInvalid = integrity.signatureStatus === 'invalid'
+	return new Promise<IScriptIntegrity | null>((resolve) => {
+		Alert.alert(
+			isInvalid ? '⚠️ 是否信任此音源？' : '是否信任此音源？',
+			`${formatTrustMessage(script, source, integrity, previous)}\n\n音源脚本可以访问网络，请只导入信任的音源。`,
+			[
+				{ text: '取消', style: 'cancel', onPress: () => resolve(null) },
+				{
+					text: '信任并导入',
+					style: isInvalid ? 'destructive' : 'default',
+					onPress: () => {
+						logInfo(`信任音源 ${source.name}，哈希: ${integrity.hash}`)
+						resolve(integrity)
+					},
+				},
+			],
+		)
+	})
+}
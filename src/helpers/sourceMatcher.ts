@@ -0,0 +1,112 @@
+/**
+ * 跨平台匹配
+ *
+ * 歌曲在当前平台无法获取播放链接时，到其他平台搜索同一首歌，
+ * 按歌名、歌手、时长打分，取超过阈值的结果；匹配成功后记在 MediaExtra 中，下次直接使用
+ */
+
+import { logInfo, logWarn } from '@/helpers/logger'
+import { searchMusicFromKw, similarity } from '@/helpers/userApi/getMusicSource'
+import { searchMusic } from '@/helpers/userApi/xiaoqiu'
+import MediaExtra from '@/store/mediaExtra'
+import { isSameMediaItem } from '@/utils/mediaItem'
+
+/** 低于此分数的结果不使用 */
+export const matchThreshold = 0.75
+/** 最多尝试的匹配结果数 */
+export const maxMatchedCount = 3
+/** 时长相差超过此秒数时，时长得分为 0 */
+const maxDurationDiff = 30
+
+export interface IMatchedMusic {
+	musicItem: IMusic.IMusicItem
+	/** 匹配得分 0~1 */
+	score: number
+}
+
+/** 去掉空格和标点，便于比较 */
+const normalize = (text?: string) =>
+	(text ?? '').toLowerCase().replace(/[\s'".,，。&、/|()（）[\]【】<>《》`~\-_]/g, '')
+
+/** 多个歌手排序后拼接，忽略歌手顺序和分隔符的差异 */
+const normalizeArtist = (artist?: string) =>
+	(artist ?? '')
+		.split(/[、,，/&;；|]/)
+		.map(normalize)
+		.filter(Boolean)
+		.sort()
+		.join('')
+
+/**
+ * 计算候选歌曲与原歌曲的匹配得分
+ * @param target 原歌曲
+ * @param candidate 候选歌曲
+ */
+export function scoreMatchedMusic(target: IMusic.IMusicItem, candidate: IMusic.IMusicItem) {
+	const titleScore = similarity(normalize(target.title), normalize(candidate.title))
+	const artistScore = similarity(normalizeArtist(target.artist), normalizeArtist(candidate.artist))
+	// 有一方没有时长时，只按歌名和歌手打分
+	if (!target.duration || !candidate.duration) {
+		return titleScore * 0.6 + artistScore * 0.4
+	}
+	const durationDiff = Math.abs(target.duration - candidate.duration)
+	const durationScore = Math.max(1 - durationDiff / maxDurationDiff, 0)
+	return titleScore * 0.5 + artistScore * 0.35 + durationScore * 0.15
+}
+
+/** 搜索各平台的候选歌曲，单个平台失败不影响其他平台 */
+async function searchCandidates(keyword: string) {
+	const results = await Promise.allSettled([
+		searchMusic(keyword, 1, 10).then((result) =>
+			(result?.data ?? []).map((item) => ({ ...item, platform: item.platform ?? 'tx' })),
+		),
+		searchMusicFromKw(keyword),
+	])
+	return results.flatMap((result) => {
+		if (result.status === 'rejected') {
+			logWarn('跨平台匹配: 搜索失败', result.reason)
+			return []
+		}
+		return result.value as IMusic.IMusicItem[]
+	})
+}
+
+/**
+ * 在其他平台搜索同一首歌
+ * @param musicItem 原歌曲
+ * @returns 得分超过阈值的结果，按得分从高到低排序
+ */
+export async function findMatchedMusic(musicItem: IMusic.IMusicItem): Promise<IMatchedMusic[]> {
+	const candidates = await searchCandidates(`${musicItem.title} ${musicItem.artist ?? ''}`.trim())
+	const matched = candidates
+		.filter((candidate) => candidate.id && !isSameMediaItem(candidate, musicItem))
+		.map((candidate) => ({
+			musicItem: candidate,
+			score: scoreMatchedMusic(musicItem, candidate),
+		}))
+		.filter(({ score }) => score >= matchThreshold)
+		.sort((a, b) => b.score - a.score)
+		.slice(0, maxMatchedCount)
+	logInfo(
+		`跨平台匹配: ${musicItem.title} 找到${matched.length}个结果`,
+		matched.map(({ musicItem, score }) => `${musicItem.platform}/${musicItem.title}: ${score}`),
+	)
+	return matched
+}
+
+/** 获取记住的匹配结果 */
+export function getRememberedMatch(musicItem: IMusic.IMusicItem) {
+	return MediaExtra.get(musicItem)?.matchedMusic ?? null
+}
+
+/**
+ * 记住匹配结果，下次直接使用
+ * @param musicItem 原歌曲
+ * @param matchedMusic 匹配到的歌曲，为空时清除
+ */
+export function rememberMatch(
+	musicItem: IMusic.IMusicItem,
+	matchedMusic: IMusic.IMusicItem | null,
+) {
+	MediaExtra.update(musicItem, { matchedMusic: matchedMusic ?? undefined })
+}
@@ -0,0 +1,500 @@
+/**
+ * 音源脚本沙箱
+ *
+ * 导入的音源脚本只能使用这里提供的全局变量和工具：
+ * - globalThis/window/self 指向一个冻结的最小全局对象
+ * - 除了标准内置对象(allowedGlobals)，应用的其他全局变量(包括 Function、eval)都被屏蔽
+ * - fetch 只能访问 http(s) 公网地址，设置了域名白名单时只能访问白名单内的域名，重定向后的地址同样检查
+ * - utils 提供 crypto(md5/aes/rsa)和 base64，require 只能引入白名单内的模块
+ * - 导出的函数每次调用都有超时
+ * 访问被屏蔽的全局变量时抛出 SandboxError。
+ * 注意：这是 JS 层面的隔离，用于限制脚本的正常用法，不能防御刻意的逃逸(如通过函数的 constructor 属性)
+ */
+
+import {
+	AES_MODE,
+	aesEncryptSync,
+	RSA_PADDING,
+	rsaEncryptSync,
+} from '@/components/utils/nativeModules/crypto'
+import { SandboxError } from '@/helpers/errors/MusicError'
+import { logError, logInfo, logWarn } from '@/helpers/logger'
+import { INetworkResult, recordNetworkRequest } from '@/store/networkLog'
+import { Buffer } from 'buffer'
+import CryptoJS from 'crypto-js'
+import QuickCrypto from 'react-native-quick-crypto'
+import { stringMd5 } from 'react-native-quick-md5'
+
+/** 导出函数的默认超时(ms) */
+export const defaultSandboxTimeout = 15000
+/** 单个请求的超时(ms) */
+const requestTimeout = 15000
+
+export interface ISandboxOptions {
+	/** 音源名称，用于日志和错误信息 */
+	name: string
+	/** 允许访问的域名(包括子域名)，为空时不限制域名；未设置时使用脚本导出的 allowedDomains */
+	allowedDomains?: string[]
+	/** 导出函数的超时(ms) */
+	timeout?: number
+	/** 额外注入的全局变量，如洛雪音乐自定义源使用的 lx */
+	globals?: Record<string, any>
+}
+
+export interface ISourceModuleExports {
+	id?: string
+	author?: string
+	name?: string
+	version?: string
+	srcUrl?: string
+	/** 脚本声明的允许访问的域名 */
+	allowedDomains?: string[]
+	/** 脚本声明的用户变量，通过 env.getUserVariables() 读取 */
+	userVariables?: IPlugin.IUserVariable[]
+	getMusicUrl?: (
+		songname: string,
+		artist: string,
+		songmid: string,
+		quality: string,
+	) => Promise<string>
+	[k: string]: any
+}
+
+/** 脚本可以直接使用的标准内置对象 */
+const allowedGlobals = new Set([
+	'undefined',
+	'NaN',
+	'Infinity',
+	'Object',
+	'Array',
+	'String',
+	'Number',
+	'Boolean',
+	'Symbol',
+	'BigInt',
+	'Math',
+	'JSON',
+	'Date',
+	'RegExp',
+	'Intl',
+	'Error',
+	'TypeError',
+	'RangeError',
+	'SyntaxError',
+	'ReferenceError',
+	'EvalError',
+	'URIError',
+	'AggregateError',
+	'Promise',
+	'Map',
+	'Set',
+	'WeakMap',
+	'WeakSet',
+	'Reflect',
+	'ArrayBuffer',
+	'DataView',
+	'Int8Array',
+	'Uint8Array',
+	'Uint8ClampedArray',
+	'Int16Array',
+	'Uint16Array',
+	'Int32Array',
+	'Uint32Array',
+	'Float32Array',
+	'Float64Array',
+	'BigInt64Array',
+	'BigUint64Array',
+	'parseInt',
+	'parseFloat',
+	'isNaN',
+	'isFinite',
+	'encodeURIComponent',
+	'decodeURIComponent',
+	'encodeURI',
+	'decodeURI',
+	'escape',
+	'unescape',
+])
+
+/** 一定屏蔽的全局变量，其他不在 allowedGlobals 中的全局变量也会被屏蔽 */
+const blockedGlobals = [
+	'Function',
+	'eval',
+	'global',
+	'mmkv',
+	'__r',
+	'__d',
+	'process',
+	'XMLHttpRequest',
+	'WebSocket',
+	'EventSource',
+	'nativeModuleProxy',
+	'nativeCallSyncHook',
+	'__fbBatchedBridge',
+	'__turboModuleProxy',
+	'HermesInternal',
+	'localStorage',
+]
+
+/** 允许 require 的模块 */
+const allowedModules: Record<string, any> = {
+	'crypto-js': CryptoJS,
+}
+
+/** 可以作为函数参数名的全局变量 */
+const identifierRegExp = /^[A-Za-z_$][\w$]*$/
+
+/**
+ * 获取需要屏蔽的全局变量：应用全局作用域中除 allowedGlobals 和沙箱提供的变量以外的所有变量
+ * @param sandboxNames 沙箱提供的变量名
+ */
+const getBlockedGlobals = (sandboxNames: Set<string>) =>
+	[...new Set([...blockedGlobals, ...Object.getOwnPropertyNames(globalThis)])].filter(
+		(globalName) =>
+			identifierRegExp.test(globalName) &&
+			!allowedGlobals.has(globalName) &&
+			!sandboxNames.has(globalName),
+	)
+
+/** 内网和本机地址不允许访问 */
+const isPrivateHost = (host: string) =>
+	host === 'localhost' ||
+	host.endsWith('.localhost') ||
+	/^(127\.|10\.|192\.168\.|169\.254\.|100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\.|0\.)/.test(host) ||
+	/^172\.(1[6-9]|2\d|3[01])\./.test(host) ||
+	host.startsWith('[')
+
+/** 标准的点分十进制 IPv4 地址，每段没有前导 0 */
+const ipv4RegExp = /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/
+
+/**
+ * 按 URL 标准解析实际访问的主机：去掉用户信息(user:pass@)、端口和末尾的点
+ * 最后一段是数字或十六进制时，URL 会把主机当作 IPv4 解析(如 2130706433、0x7f.0.0.1、0177.0.0.1)，
+ * 这种情况只接受标准格式，其他格式返回 null
+ * @returns 不是 http(s) 地址时返回 undefined
+ */
+const getHost = (url: string) => {
+	// 地址中的空白和控制字符会被 URL 解析忽略，不允许出现
+	if (/\s/.test(url) || Array.from(url).some((char) => char.charCodeAt(0) < 0x20)) {
+		return undefined
+	}
+	const authority = url.match(/^https?:\/\/([^/?#\\]*)/i)?.[1]
+	if (authority === undefined) {
+		return undefined
+	}
+	const hostAndPort = authority.slice(authority.lastIndexOf('@') + 1).toLowerCase()
+	const host = hostAndPort.startsWith('[')
+		? hostAndPort.slice(0, hostAndPort.indexOf(']') + 1)
+		: hostAndPort.split(':')[0].replace(/\.$/, '')
+	// 百分号编码的主机会被解码后再解析
+	if (!host || host.includes('%')) {
+		return undefined
+	}
+	const lastLabel = host.split('.').pop() ?? ''
+	if (/^(\d+|0x[\da-f]*)$/.test(lastLabel) && !ipv4RegExp.test(host)) {
+		return null
+	}
+	return host
+}
+
+/**
+ * 检查请求地址是否允许访问
+ * @param url 地址
+ * @param allowedDomains 域名白名单，为空时不限制域名
+ * @returns 不允许时返回原因
+ */
+export function checkRequestUrl(url: string, allowedDomains: readonly string[] = []) {
+	const host = typeof url === 'string' ? getHost(url) : undefined
+	if (host === null) {
+		return `只允许使用标准格式的 IP 地址: ${url}`
+	}
+	if (!host) {
+		return `只允许访问 http(s) 地址: ${url}`
+	}
+	if (isPrivateHost(host)) {
+		return `不允许访问内网地址: ${host}`
+	}
+	if (
+		allowedDomains.length &&
+		!allowedDomains.some((domain) => host === domain || host.endsWith(`.${domain}`))
+	) {
+		return `域名不在白名单中: ${host}`
+	}
+	return null
+}
+
+/**
+ * 检查重定向后的地址，跳转到内网或白名单外的地址时不把响应交给脚本
+ * React Native 的 fetch 不支持 redirect: 'manual'，重定向会自动跟随，只能在拿到响应后检查
+ * @param response 响应，url 为最终的地址
+ * @returns 不允许时返回原因
+ */
+export function checkResponseUrl(response: Response, allowedDomains: readonly string[] = []) {
+	const reason = response.url ? checkRequestUrl(response.url, allowedDomains) : null
+	return reason && `重定向后${reason}`
+}
+
+/** 访问时抛出错误的占位对象 */
+const createBlockedGlobal = (sourceName: string, globalName: string) => {
+	const throwError = () => {
+		throw new SandboxError(`音源 ${sourceName} 不允许使用 ${globalName}`)
+	}
+	return new Proxy(function () {}, {
+		get: throwError,
+		set: throwError,
+		apply: throwError,
+		construct: throwError,
+	})
+}
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, message: string) =>
+	new Promise<T>((resolve, reject) => {
+		const timer = setTimeout(() => reject(new SandboxError(message)), ms)
+		promise.then(
+			(value) => {
+				clearTimeout(timer)
+				resolve(value)
+			},
+			(error) => {
+				clearTimeout(timer)
+				reject(error)
+			},
+		)
+	})
+
+/** 记录响应，只读取文本类型的内容，不影响脚本读取原响应 */
+const recordFetchResponse = (
+	response: Response,
+	finishRecord: (result: INetworkResult) => void,
+) => {
+	const contentType = response.headers.get('content-type') ?? ''
+	if (contentType && !/json|text|xml|javascript|urlencoded/i.test(contentType)) {
+		finishRecord({ status: response.status, responseBody: `[${contentType}]` })
+		return
+	}
+	response
+		.clone()
+		.text()
+		.then(
+			(text) => finishRecord({ status: response.status, responseBody: text }),
+			() => finishRecord({ status: response.status }),
+		)
+}
+
+const deepFreeze = <T>(object: T): T => {
+	if (object && typeof object === 'object' && !Object.isFrozen(object)) {
+		Object.freeze(object)
+		Object.values(object).forEach(deepFreeze)
+	}
+	return object
+}
+
+/** 脚本可以使用的工具 */
+const createUtils = () => ({
+	crypto: {
+		md5: (str: string) => {
+			if (typeof str !== 'string') {
+				throw new SandboxError('md5 的参数必须为字符串')
+			}
+			return stringMd5(str)
+		},
+		/** 参数和返回值均为 base64 */
+		aesEncrypt: (data: string, key: string, iv: string, mode: 'aes-128-cbc' | 'aes-128-ecb') =>
+			aesEncryptSync(
+				data,
+				key,
+				mode === 'aes-128-ecb' ? '' : iv,
+				mode === 'aes-128-ecb' ? AES_MODE.ECB_128_NoPadding : AES_MODE.CBC_128_PKCS7Padding,
+			),
+		/** 参数和返回值均为 base64 */
+		rsaEncrypt: (data: string, key: string) => rsaEncryptSync(data, key, RSA_PADDING.NoPadding),
+		randomBytes: (size: number) => QuickCrypto.randomBytes(size),
+	},
+	base64: {
+		encode: (str: string) => Buffer.from(str, 'utf8').toString('base64'),
+		decode: (b64: string) => Buffer.from(b64, 'base64').toString('utf8'),
+	},
+})
+
+/**
+ * 在沙箱中执行音源脚本
+ * @param script 脚本内容
+ * @param options 选项
+ * @returns 脚本导出的内容，函数已包装超时
+ */
+export function runSourceScript(script: string, options: ISandboxOptions): ISourceModuleExports {
+	const { name } = options
+	const timeout = options.timeout ?? defaultSandboxTimeout
+	const module: { exports: ISourceModuleExports } = { exports: {} }
+	// 没有指定白名单时，使用脚本执行完成时声明的，之后脚本修改 exports 不会生效
+	let allowedDomains: readonly string[] | null = options.allowedDomains ?? null
+	const getAllowedDomains = () => allowedDomains ?? module.exports.allowedDomains ?? []
+
+	const sandboxFetch = (input: string | { url: string }, init?: RequestInit) => {
+		const url = typeof input === 'string' ? input : input?.url
+		const reason = checkRequestUrl(url, getAllowedDomains())
+		if (reason) {
+			return Promise.reject(new SandboxError(`音源 ${name} 请求被拦截: ${reason}`))
+		}
+		const finishRecord = recordNetworkRequest(name, {
+			method: init?.method,
+			url,
+			headers: init?.headers,
+			body: init?.body,
+		})
+		return withTimeout(fetch(url, init), requestTimeout, `音源 ${name} 请求超时: ${url}`).then(
+			(response) => {
+				const reason = checkResponseUrl(response, getAllowedDomains())
+				if (reason) {
+					const error = new SandboxError(`音源 ${name} 请求被拦截: ${reason}`)
+					finishRecord({ status: response.status, error })
+					throw error
+				}
+				recordFetchResponse(response, finishRecord)
+				return response
+			},
+			(error) => {
+				finishRecord({ error })
+				throw error
+			},
+		)
+	}
+
+	const sandboxRequire = (moduleName: string) => {
+		if (!(moduleName in allowedModules)) {
+			throw new SandboxError(`音源 ${name} 不允许引入模块 ${moduleName}`)
+		}
+		return allowedModules[moduleName]
+	}
+
+	const sandboxConsole = {
+		log: (...args: any[]) => logInfo(`[音源 ${name}]`, ...args),
+		info: (...args: any[]) => logInfo(`[音源 ${name}]`, ...args),
+		warn: (...args: any[]) => logWarn(`[音源 ${name}]`, ...args),
+		error: (...args: any[]) => logError(`[音源 ${name}]`, ...args),
+		debug: () => {},
+		group: () => {},
+		groupCollapsed: () => {},
+		groupEnd: () => {},
+	}
+
+	const sandboxGlobal: Record<string, any> = {
+		console: sandboxConsole,
+		fetch: sandboxFetch,
+		utils: createUtils(),
+		setTimeout,
+		clearTimeout,
+		setInterval,
+		clearInterval,
+		TextEncoder: globalThis.TextEncoder,
+		TextDecoder: globalThis.TextDecoder,
+		btoa: globalThis.btoa,
+		atob: globalThis.atob,
+		URL: globalThis.URL,
+		URLSearchParams: globalThis.URLSearchParams,
+		AbortController: globalThis.AbortController,
+		...options.globals,
+	}
+	sandboxGlobal.globalThis = sandboxGlobal
+	sandboxGlobal.window = sandboxGlobal
+	sandboxGlobal.self = sandboxGlobal
+	deepFreeze(sandboxGlobal)
+
+	// 通过同名参数覆盖全局变量
+	const sandboxNames = new Set(['module', 'exports', 'require', ...Object.keys(sandboxGlobal)])
+	const blockedNames = getBlockedGlobals(sandboxNames)
+	const argNames = [...sandboxNames, ...blockedNames]
+	const argValues = [
+		module,
+		module.exports,
+		sandboxRequire,
+		...Object.values(sandboxGlobal),
+		...blockedNames.map((globalName) => createBlockedGlobal(name, globalName)),
+	]
+
+	try {
+		// 脚本放在内层函数中执行，脚本开启严格模式时参数名 eval 不会报错
+		const moduleFunc = new Function(...argNames, `return function () {\n${script}\n}.call(this)`)
+		moduleFunc.apply(sandboxGlobal, argValues)
+	} catch (error) {
+		if (error instanceof SandboxError) {
+			throw error
+		}
+		throw new SandboxError(`音源 ${name} 脚本执行失败: ${error?.message ?? error}`, error)
+	}
+	const declaredDomains = module.exports?.allowedDomains
+	allowedDomains ??= Object.freeze(Array.isArray(declaredDomains) ? [...declaredDomains] : [])
+	if (!allowedDomains.length) {
+		logWarn(`音源 ${name} 没有声明域名白名单，可以访问任意公网地址`)
+	}
+
+	return wrapExports(module.exports, name, timeout)
+}
+
+/**
+ * 在沙箱中执行脚本，从导出的内容创建音源
+ * @param script 脚本内容
+ * @param options name 为脚本没有导出名称时使用的名称(如文件名)，srcUrl 为导入地址，
+ * id 为指定的音源 id，优先于脚本导出的 id
+ */
+export function createMusicApiFromScript(
+	script: string,
+	options: { name: string; srcUrl?: string; id?: string },
+): IMusic.MusicApi {
+	const exports = runSourceScript(script, { name: options.name })
+	const id = options.id || exports.id
+	if (!id || typeof id !== 'string') {
+		throw new SandboxError(`音源 ${exports.name || options.name} 没有导出 id`)
+	}
+	return {
+		id,
+		platform: 'tx', // 平台目前默认tx
+		author: exports.author || '',
+		name: exports.name || options.name,
+		version: exports.version || '',
+		srcUrl: options.srcUrl || exports.srcUrl || '',
+		script,
+		isSelected: false,
+		getMusicUrl: exports.getMusicUrl,
+		allowedDomains: exports.allowedDomains,
+		userVariables: exports.userVariables,
+	}
+}
+
+/** 给导出的函数加上超时，并把错误转为 SandboxError */
+function wrapExports(exports: ISourceModuleExports, name: string, timeout: number) {
+	if (!exports || typeof exports !== 'object') {
+		throw new SandboxError(`音源 ${name} 没有导出内容`)
+	}
+	const wrapped: ISourceModuleExports = {}
+	for (const [key, value] of Object.entries(exports)) {
+		if (typeof value !== 'function') {
+			wrapped[key] = value
+			continue
+		}
+		wrapped[key] = (...args: any[]) => {
+			let result: any
+			try {
+				result = value.apply(exports, args)
+			} catch (error) {
+				throw toSandboxError(error, name, key)
+			}
+			if (!result || typeof result.then !== 'function') {
+				return result
+			}
+			return withTimeout(
+				Promise.resolve(result),
+				timeout,
+				`音源 ${name} 的 ${key} 执行超时(${timeout}ms)`,
+			).catch((error) => {
+				throw toSandboxError(error, name, key)
+			})
+		}
+	}
+	return wrapped
+}
+
+const toSandboxError = (error: any, name: string, key: string) =>
+	error instanceof SandboxError
+		? error
+		: new SandboxError(`音源 ${name} 的 ${key} 出错: ${error?.message ?? error}`, error)
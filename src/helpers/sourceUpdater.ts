@@ -0,0 +1,305 @@
+import { SandboxError } from '@/helpers/errors/MusicError'
+import { logError, logInfo } from '@/helpers/logger'
+import { createLxMusicApi, isLxUserApiScript, parseLxScriptInfo } from '@/helpers/lxUserApi'
+import {
+	checkScriptIntegrity,
+	formatSignatureStatus,
+	getScriptHeaderInfo,
+	IScriptIntegrity,
+} from '@/helpers/sourceIntegrity'
+import { createMusicApiFromScript } from '@/helpers/sourceSandbox'
+import testMusicSource from '@/helpers/testMusicSource'
+import myTrackPlayer, { musicApiStore } from '@/helpers/trackPlayerIndex'
+import PersistStatus from '@/store/PersistStatus'
+import Config from '@/store/config'
+import { GlobalState } from '@/utils/stateMapper'
+import { showToast } from '@/utils/utils'
+import { Alert } from 'react-native'
+
+/** 可更新的音源 */
+export interface IMusicApiUpdate {
+	/** 当前的音源 */
+	musicApi: IMusic.MusicApi
+	/** 从 srcUrl 获取的新脚本，确认更新后才执行 */
+	script: string
+	/** 头部注释中的新版本号，没有时为空 */
+	version: string
+	/** 新版本的更新说明 */
+	changelog: string
+	/** 新增和删除的行数 */
+	addedLines: number
+	removedLines: number
+	/** 新版本的哈希和签名校验结果 */
+	integrity: IScriptIntegrity
+}
+
+/** 获取脚本的超时时间(ms) */
+const fetchTimeout = 10000
+/** 启动时检查更新的间隔(ms) */
+const launchCheckInterval = 24 * 60 * 60 * 1000
+
+/** 是否正在检查更新 */
+export const checkingUpdateStore = new GlobalState<boolean>(false)
+
+/**
+ * 比较版本号，a 比 b 新时返回正数
+ * @param a 版本号，如 1.2.0 或 v1.2
+ * @param b 版本号
+ */
+export function compareVersion(a: string, b: string) {
+	const parse = (version: string) =>
+		(version || '')
+			.trim()
+			.replace(/^v/i, '')
+			.split(/[.-]/)
+			.map((part) => parseInt(part, 10) || 0)
+	const partsA = parse(a)
+	const partsB = parse(b)
+	for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+		const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0)
+		if (diff !== 0) {
+			return diff
+		}
+	}
+	return 0
+}
+
+/** 按行比较脚本，统计新增和删除的行数 */
+const getDiffSummary = (oldScript: string, newScript: string) => {
+	const lineCounts = new Map<string, number>()
+	for (const line of oldScript.split(/\r?\n/)) {
+		lineCounts.set(line, (lineCounts.get(line) ?? 0) + 1)
+	}
+	let addedLines = 0
+	for (const line of newScript.split(/\r?\n/)) {
+		const count = lineCounts.get(line) ?? 0
+		if (count > 0) {
+			lineCounts.set(line, count - 1)
+		} else {
+			addedLines++
+		}
+	}
+	const removedLines = [...lineCounts.values()].reduce((sum, count) => sum + count, 0)
+	return { addedLines, removedLines }
+}
+
+/** 获取远程文本，如音源脚本或音源目录 */
+export const fetchScript = async (srcUrl: string) => {
+	const controller = new AbortController()
+	const timer = setTimeout(() => controller.abort(), fetchTimeout)
+	try {
+		const response = await fetch(srcUrl, { signal: controller.signal })
+		if (!response.ok) {
+			throw new Error(`HTTP error! status: ${response.status}`)
+		}
+		return await response.text()
+	} finally {
+		clearTimeout(timer)
+	}
+}
+
+/**
+ * 从新的脚本创建音源，沿用原音源的 id 和 srcUrl
+ * 会执行脚本，只在确认更新后调用
+ */
+const createUpdatedMusicApi = async (update: IMusicApiUpdate): Promise<IMusic.MusicApi> => {
+	const { musicApi, script, integrity } = update
+	const newMusicApi = isLxUserApiScript(script)
+		? await createLxMusicApi(script)
+		: createMusicApiFromScript(script, { name: musicApi.name })
+	return {
+		...newMusicApi,
+		id: musicApi.id,
+		srcUrl: musicApi.srcUrl,
+		author: newMusicApi.author || musicApi.author,
+		hash: integrity.hash,
+		signatureKey: integrity.signatureKey,
+	}
+}
+
+/**
+ * 检查单个音源是否有新版本，只读取脚本的头部注释，不执行脚本
+ * @returns 没有 srcUrl 或没有新版本时返回 null
+ */
+export async function checkMusicApiUpdate(
+	musicApi: IMusic.MusicApi,
+): Promise<IMusicApiUpdate | null> {
+	if (!musicApi.srcUrl) {
+		return null
+	}
+	const script = await fetchScript(musicApi.srcUrl)
+	if (script === musicApi.script) {
+		return null
+	}
+	const header = isLxUserApiScript(script) ? parseLxScriptInfo(script) : getScriptHeaderInfo(script)
+	const version = header?.version || ''
+	// 不检查版本号或头部注释没有版本号时，脚本有变化就视为有更新
+	if (
+		!Config.get('setting.basic.notCheckPluginVersion') &&
+		version &&
+		compareVersion(version, musicApi.version) <= 0
+	) {
+		return null
+	}
+	return {
+		musicApi,
+		script,
+		version,
+		changelog: header?.description || '',
+		...getDiffSummary(musicApi.script, script),
+		integrity: checkScriptIntegrity(script),
+	}
+}
+
+/** 检查所有音源的更新，单个音源出错时跳过 */
+export async function checkMusicApiUpdates() {
+	checkingUpdateStore.setValue(true)
+	const updates: IMusicApiUpdate[] = []
+	try {
+		for (const musicApi of musicApiStore.getValue() || []) {
+			try {
+				const update = await checkMusicApiUpdate(musicApi)
+				if (update) {
+					updates.push(update)
+				}
+			} catch (error) {
+				logError(`检查音源 ${musicApi.name} 的更新失败:`, error)
+			}
+		}
+		PersistStatus.set('app.pluginUpdateTime', Date.now())
+		logInfo(`检查音源更新完成，${updates.length} 个音源有新版本`)
+		return updates
+	} finally {
+		checkingUpdateStore.setValue(false)
+	}
+}
+
+/** 生成更新说明，用于提示 */
+export function formatUpdateSummary(updates: IMusicApiUpdate[]) {
+	return updates
+		.map((update) =>
+			[
+				`${update.musicApi.name}: ${update.musicApi.version || '?'} → ${update.version || '?'}`,
+				`(+${update.addedLines} / -${update.removedLines} 行)`,
+				`⚠️ 脚本已变化 (${(update.musicApi.hash ?? '?').slice(0, 8)} → ${update.integrity.hash.slice(0, 8)})`,
+				formatSignatureStatus(update.integrity),
+				update.changelog,
+			]
+				.filter(Boolean)
+				.join('\n'),
+		)
+		.join('\n\n')
+}
+
+/**
+ * 更新是否需要用户确认：签名无效，或原来有签名而新版本没有通过验证
+ */
+export const isUpdateNeedConfirm = (update: IMusicApiUpdate) =>
+	update.integrity.signatureStatus === 'invalid' ||
+	(!!update.musicApi.signatureKey && update.integrity.signatureStatus !== 'verified')
+
+/** 获取保存的更新前版本，key 为音源 id */
+export const getMusicApiBackups = () => PersistStatus.get('music.musicApiBackups') ?? {}
+
+/**
+ * 回滚到更新前的版本
+ * @param musicApiId 音源 id
+ */
+export function rollbackMusicApi(musicApiId: string) {
+	const backups = getMusicApiBackups()
+	const backup = backups[musicApiId]
+	if (!backup) {
+		return false
+	}
+	myTrackPlayer.addMusicApi(backup, true)
+	delete backups[musicApiId]
+	PersistStatus.set('music.musicApiBackups', backups)
+	logInfo(`音源 ${backup.name} 已回滚到 ${backup.version}`)
+	return true
+}
+
+/**
+ * 更新音源，保留更新前的版本，新脚本在这时才执行
+ * 新版本测试不通过时提示回滚
+ * @returns 新版本是否测试通过
+ */
+export async function applyMusicApiUpdate(update: IMusicApiUpdate) {
+	const { musicApi } = update
+	const newMusicApi = await createUpdatedMusicApi(update)
+	PersistStatus.set('music.musicApiBackups', {
+		...getMusicApiBackups(),
+		[musicApi.id]: musicApi,
+	})
+	myTrackPlayer.addMusicApi(newMusicApi, true)
+	logInfo(`音源 ${musicApi.name} 已更新到 ${newMusicApi.version}`)
+
+	const result = await testMusicSource(myTrackPlayer.reloadMusicApi(newMusicApi, true))
+	if (result.status === '正常') {
+		return true
+	}
+	Alert.alert(
+		'新版本不可用',
+		`音源 ${newMusicApi.name} ${newMusicApi.version} 测试失败: ${result.error ?? '未知错误'}\n是否回滚到 ${musicApi.version}？`,
+		[
+			{ text: '取消', style: 'cancel' },
+			{ text: '回滚', onPress: () => rollbackMusicApi(musicApi.id) },
+		],
+	)
+	return false
+}
+
+/** 依次更新音源 */
+export async function applyMusicApiUpdates(updates: IMusicApiUpdate[]) {
+	for (const update of updates) {
+		try {
+			await applyMusicApiUpdate(update)
+		} catch (error) {
+			logError(`更新音源 ${update.musicApi.name} 失败:`, error)
+			Alert.alert(
+				'更新失败',
+				error instanceof SandboxError ? error.message : `音源 ${update.musicApi.name} 更新失败`,
+			)
+		}
+	}
+}
+
+/** 提示可更新的音源，确认后更新 */
+export function promptMusicApiUpdates(updates: IMusicApiUpdate[]) {
+	Alert.alert('音源有新版本', formatUpdateSummary(updates), [
+		{ text: '取消', style: 'cancel' },
+		{ text: '更新', onPress: () => applyMusicApiUpdates(updates) },
+	])
+}
+
+/**
+ * 启动时在后台检查更新，每天最多一次
+ * 开启自动更新时直接更新，否则提示
+ */
+export async function checkMusicApiUpdatesOnLaunch() {
+	const lastCheckTime = PersistStatus.get('app.pluginUpdateTime') ?? 0
+	if (Date.now() - lastCheckTime < launchCheckInterval) {
+		return
+	}
+	try {
+		const updates = await checkMusicApiUpdates()
+		if (!updates.length) {
+			return
+		}
+		if (!Config.get('setting.basic.autoUpdatePlugin')) {
+			promptMusicApiUpdates(updates)
+			return
+		}
+		// 签名有问题的更新仍然需要确认
+		const autoUpdates = updates.filter((update) => !isUpdateNeedConfirm(update))
+		const confirmUpdates = updates.filter(isUpdateNeedConfirm)
+		if (autoUpdates.length) {
+			await applyMusicApiUpdates(autoUpdates)
+			showToast('提示', `已自动更新 ${autoUpdates.length} 个音源`, 'info')
+		}
+		if (confirmUpdates.length) {
+			promptMusicApiUpdates(confirmUpdates)
+		}
+	} catch (error) {
+		logError('启动时检查音源更新失败:', error)
+	}
+}
@@ -0,0 +1,99 @@
+import { logError, logInfo } from '@/helpers/logger'
+
+/** 测试结果，status 为 正常/异常 */
+export interface IMusicSourceTestResult {
+	status: string
+	error?: string
+	url?: string
+}
+
+/**
+ * 测试单个音源是否可用
+ * @param musicApi 已加载脚本的音源
+ */
+const testMusicSource = async (musicApi: IMusic.MusicApi): Promise<IMusicSourceTestResult> => {
+	try {
+		logInfo(`开始测试音源: ${musicApi.name}, ID: ${musicApi.id}`)
+
+		// 检查musicApi.getMusicUrl是否存在且为函数
+		if (typeof musicApi.getMusicUrl !== 'function') {
+			logError(`音源 ${musicApi.name} 的 getMusicUrl 不是函数或不存在`, musicApi)
+			return { status: '异常', error: 'getMusicUrl 方法不可用' }
+		}
+
+		// 设置超时
+		const timeoutPromise = new Promise((_, reject) => {
+			setTimeout(() => reject(new Error('请求超时')), 5000)
+		})
+		logInfo(
+			`测试音源详情:`,
+			JSON.stringify({
+				name: musicApi.name,
+				id: musicApi.id,
+				author: musicApi.author,
+				version: musicApi.version,
+			}),
+		)
+
+		// 尝试获取测试歌曲URL
+		// 这里使用了固定的测试歌曲信息，可以根据实际需求修改
+		const testTitle = '稻香'
+		const testArtist = '周杰伦'
+		const testId = '004IArbh3ytHgR'
+
+		logInfo(`测试歌曲信息: ${testTitle} - ${testArtist}, ID: ${testId}`)
+
+		// 按音质降级尝试
+		const qualityOrder: IMusic.IQualityKey[] = ['128k']
+
+		for (const quality of qualityOrder) {
+			try {
+				logInfo(`尝试获取音源 ${musicApi.name} 的 ${quality} 音质`)
+
+				// 记录函数调用前的参数
+				logInfo(
+					`调用 getMusicUrl 参数: title=${testTitle}, artist=${testArtist}, id=${testId}, quality=${quality}`,
+				)
+
+				const resp_url = await Promise.race([
+					musicApi.getMusicUrl(testTitle, testArtist, testId, quality),
+					timeoutPromise,
+				])
+
+				// 记录返回值
+				logInfo(`音源 ${musicApi.name} 返回结果: ${resp_url}`)
+
+				if (resp_url && resp_url !== '') {
+					// 找到可用音源
+					logInfo(`音源 ${musicApi.name} 测试成功，音质: ${quality}, URL: ${resp_url}`)
+					return { status: '正常', url: resp_url }
+				} else {
+					logInfo(`音源 ${musicApi.name} 返回空URL，音质: ${quality}`)
+				}
+			} catch (err) {
+				// 继续尝试下一个音质
+				logError(`测试音源 ${musicApi.name} ${quality} 音质失败:`, err)
+				logInfo(`错误详情: ${err.message || '未知错误'}`)
+				// 尝试打印错误堆栈
+				if (err.stack) {
+					logInfo(`错误堆栈: ${err.stack}`)
+				}
+			}
+		}
+
+		// 所有音质都尝试失败
+		logInfo(`音源 ${musicApi.name} 所有音质测试均失败`)
+		return { status: '异常', error: '无法获取音乐URL' }
+	} catch (error) {
+		logError(`测试音源 ${musicApi?.name || '未知'} 时发生异常:`, error)
+		if (error.stack) {
+			logInfo(`异常错误堆栈: ${error.stack}`)
+		}
+		return {
+			status: '异常',
+			error: error.message === '请求超时' ? '请求超时' : error.message || '未知错误',
+		}
+	}
+}
+
+export default testMusicSource
@@ -1,12 +1,25 @@
 import { internalFakeSoundKey, sortIndexSymbol, timeStampSymbol } from '@/constants/commonConst'
 import { SoundAsset } from '@/constants/constant'
 import Config from '@/store/config'
+import { filterDisliked, isDisliked, setupDislikeList } from '@/store/dislikeList'
+import {
+	compareSourceHealth,
+	getHealthiestMusicApiId,
+	getSourceHealthSummary,
+	minRecordsToCompare,
+	recordSourceHealth,
+} from '@/store/sourceHealth'
+import { createSourceEnv, removeUserVariables } from '@/store/userVariables'
 import delay from '@/utils/delay'
-import { isSameMediaItem, mergeProps, sortByTimestampAndIndex } from '@/utils/mediaItem'
+import {
+	getMediaKey,
+	isSameMediaItem,
+	mergeProps,
+	sortByTimestampAndIndex,
+} from '@/utils/mediaItem'
 import { GlobalState } from '@/utils/stateMapper'
 import * as FileSystem from 'expo-file-system'
 import { produce } from 'immer'
-import shuffle from 'lodash.shuffle'
 import RNFS from 'react-native-fs'
 import ReactNativeTrackPlayer, {
 	Event,
@@ -16,8 +29,19 @@ import ReactNativeTrackPlayer, {
 	useProgress,
 } from 'react-native-track-player'
 
-import { MusicRepeatMode } from '@/helpers/types'
+import smartShuffle from '@/helpers/smartShuffle'
+import { MusicRepeatMode, PlaybackRateScope, ShuffleWeight } from '@/helpers/types'
 import PersistStatus from '@/store/PersistStatus'
+import MediaExtra from '@/store/mediaExtra'
+import { getTrackPlayCounts, recordListening } from '@/store/listeningStats'
+import {
+	addPlayHistory,
+	clearPlayHistory,
+	getPlayHistory,
+	removePlayHistory,
+	setupPlayHistory,
+	usePlayHistory,
+} from '@/store/playHistory'
 import {
 	getMusicIndex,
 	getPlayList,
@@ -27,16 +51,42 @@ import {
 	setPlayList,
 	usePlayList,
 } from '@/store/playList'
+import { addToUpNext, getUpNext, setUpNext, setupUpNext, shiftUpNext } from '@/store/upNext'
 import { createMediaIndexMap } from '@/utils/mediaIndexMap'
 import { musicIsPaused } from '@/utils/trackUtils'
 import { Alert, AppState, Image } from 'react-native'
 
-import { myGetLyric } from '@/helpers/userApi/getMusicSource'
-
-import { fakeAudioMp3Uri } from '@/constants/images'
+import { fetchRadioTracks } from '@/helpers/autoplayRadio'
+import { SandboxError } from '@/helpers/errors/MusicError'
+import MediaCache, { IMusicUrlCacheItem } from '@/helpers/mediaCache'
+import {
+	getLowerQuality,
+	IResolveAttempt,
+	resolveMusicUrl,
+	sortMusicApis,
+} from '@/helpers/musicApiResolver'
+import { checkScrobble, setupScrobbler, updateNowPlaying } from '@/helpers/scrobbler'
+import { findMatchedMusic, getRememberedMatch, rememberMatch } from '@/helpers/sourceMatcher'
+import {
+	createLxMusicApi,
+	getLxMusicApiId,
+	isLxUserApiScript,
+	loadLxUserApi,
+	parseLxScriptInfo,
+} from '@/helpers/lxUserApi'
+import {
+	confirmSourceTrust,
+	getScriptHeaderInfo,
+	IScriptSource,
+	isScriptUnchanged,
+} from '@/helpers/sourceIntegrity'
+import { createMusicApiFromScript, runSourceScript } from '@/helpers/sourceSandbox'
+import { getUrlFromKw, myGetLyric } from '@/helpers/userApi/getMusicSource'
+
+import { fakeAudioMp3Uri, unknownTrackImageUri } from '@/constants/images'
 import { nowLanguage } from '@/utils/i18n'
 import { showToast } from '@/utils/utils'
-import { logError, logInfo } from './logger'
+import { logError, logInfo, logWarn } from './logger'
 
 /** 当前播放 */
 const currentMusicStore = new GlobalState<IMusic.IMusicItem | null>(null)
@@ -51,21 +101,38 @@ export const qualityStore = new GlobalState<IMusic.IQualityKey>('128k')
 export const musicApiStore = new GlobalState<IMusic.MusicApi[] | []>(null)
 /** 当前音源 */
 export const musicApiSelectedStore = new GlobalState<IMusic.MusicApi>(null)
-/** 音源状态*/
-export const nowApiState = new GlobalState<string>('正常')
+/** 音源优先级(音源 id 顺序) */
+export const musicApiOrderStore = new GlobalState<string[]>([])
+/** 各音源状态 */
+export const nowApiState = new GlobalState<Record<string, IMusic.MusicApiState>>({})
 /** 是否自动缓存本地 */
 export const autoCacheLocalStore = new GlobalState<boolean>(true)
 /** 是否显示已缓存图标 */
 export const isCachedIconVisibleStore = new GlobalState<boolean>(true)
 /** 首页加载歌曲数量 */
 export const songsNumsToLoadStore = new GlobalState<number>(100)
+/** 随机播放的权重 */
+export const shuffleWeightStore = new GlobalState<ShuffleWeight>('none')
+/** 提前多少秒预加载下一首，0 为关闭 */
+export const prefetchSecondsStore = new GlobalState<number>(15)
+/** 当前生效的播放速度和它保存的范围 */
+export const playbackRateStore = new GlobalState<{ rate: number; scope: PlaybackRateScope }>({
+	rate: 1,
+	scope: 'global',
+})
+export const minPlaybackRate = 0.5
+export const maxPlaybackRate = 3
+/** 可以撤销的播放列表修改次数 */
+export const queueUndoCountStore = new GlobalState<number>(0)
+/** A-B 循环(s)，end 为空时表示只设置了 A 点 */
+export const abLoopStore = new GlobalState<{ start: number; end?: number } | null>(null)
 /** 已导入的本地音乐 */
 export const importedLocalMusicStore = new GlobalState<IMusic.IMusicItem[] | []>(null)
 
 export function useCurrentQuality() {
 	const currentQuality = qualityStore.useValue()
 	const setCurrentQuality = (newQuality: IMusic.IQualityKey) => {
-		setQuality(newQuality)
+		changeQuality(newQuality)
 	}
 	return [currentQuality, setCurrentQuality] as const
 }
@@ -73,25 +140,65 @@ export function useCurrentQuality() {
 export const nowLyricState = new GlobalState<string>(null)
 
 let currentIndex = -1
+/** 播放列表修改前的快照，用于撤销 */
+let queueUndoStack: { playList: IMusic.IMusicItem[]; upNext: IMusic.IMusicItem[] }[] = []
+const maxQueueUndoLength = 20
+/** 当前歌曲是否来自"接下来播放"队列 */
+let isPlayingUpNext = false
+/** 即将播放的"接下来播放"队列中的歌曲 */
+let pendingUpNextItem: IMusic.IMusicItem | null = null
+/** 播放列表中最近播放的歌曲，播放"接下来播放"队列时用于保持在播放列表中的位置 */
+let contextMusic: IMusic.IMusicItem | null = null
 // 定义缓存目录
 const cacheDir = FileSystem.documentDirectory + 'musicCache/'
 // TODO: 下个版本最大限制调大一些
 // const maxMusicQueueLength = 1500; // 当前播放最大限制
 
 let hasSetupListener = false
+/** 已预加载过的歌曲，避免同一首歌重复预加载 */
+let prefetchedMediaKey: string | null = null
+/** 自动续播：已按哪首歌获取过相似歌曲，避免重复获取 */
+let radioSeedKey: string | null = null
+let radioPromise: Promise<void> | null = null
+/** 自动续播：开始获取相似歌曲的剩余时间(s) */
+const radioLeadSeconds = 30
+/** 播放中断后最多重新获取链接的次数 */
+const maxPlaybackRetryCount = 3
+/** 当前歌曲已重试的次数，切歌时重置 */
+let playbackRetryCount = 0
+/** 最近一次上报的播放进度，出错时 getProgress 可能已经归零 */
+let lastKnownPosition = 0
+/** 播放进度保存间隔(ms) */
+const progressSaveInterval = 5000
+let lastProgressSavedAt = 0
+
+/** 当前歌曲的收听情况，切歌时写入播放记录 */
+let playSession: {
+	musicItem: IMusic.IMusicItem
+	playedAt: number
+	musicApiId?: string
+	musicApiName?: string
+	listenedDuration: number
+	duration: number
+} | null = null
+
+/** 歌曲自然播放结束时调用，返回 true 时停止播放，不再切到下一首(用于定时关闭) */
+let trackEndInterceptor: (() => boolean) | null = null
+let isHandlingTrackEnd = false
+
+/** 当前歌曲设置的开始和结束位置(s) */
+let currentTrackTrim: { start: number; end?: number } = { start: 0 }
+/** A-B 循环检查间隔(ms)，进度事件每秒一次，不够精确 */
+const abLoopCheckInterval = 200
+let abLoopTimerId: ReturnType<typeof setInterval> | null = null
 
 // TODO: 删除
 function migrate() {
-	PersistStatus.set('music.rate', 1)
-	//TODO 循环方式
-	PersistStatus.set('music.repeatMode', MusicRepeatMode.QUEUE)
-	// PersistStatus.set('music.playList', []);
-	PersistStatus.set('music.progress', 0)
-	//PersistStatus.set('music.musicItem', track);
 	Config.set('status.music', undefined)
 }
 
 async function setupTrackPlayer() {
+	await Config.setup()
 	migrate()
 	const rate = PersistStatus.get('music.rate')
 	const musicQueue = PersistStatus.get('music.play-list')
@@ -102,14 +209,18 @@ async function setupTrackPlayer() {
 	const playLists = PersistStatus.get('music.playLists')
 	const musicApiLists = PersistStatus.get('music.musicApi')
 	const selectedMusicApi = PersistStatus.get('music.selectedMusicApi')
+	const musicApiOrder = PersistStatus.get('music.musicApiOrder')
 	const importedLocalMusic = PersistStatus.get('music.importedLocalMusic')
 	const autoCacheLocal = PersistStatus.get('music.autoCacheLocal') ?? true
 	const language = PersistStatus.get('app.language') ?? 'zh'
 	const isCachedIconVisible = PersistStatus.get('music.isCachedIconVisible') ?? true
 	const songsNumsToLoad = PersistStatus.get('music.songsNumsToLoad') ?? 100
+	const prefetchSeconds = PersistStatus.get('music.prefetchSeconds')
+	const shuffleWeight = PersistStatus.get('music.shuffleWeight')
 	// 状态恢复
 	if (rate) {
 		await ReactNativeTrackPlayer.setRate(+rate)
+		playbackRateStore.setValue({ rate: +rate, scope: 'global' })
 	}
 	if (repeatMode) {
 		repeatModeStore.setValue(repeatMode as MusicRepeatMode)
@@ -124,6 +235,9 @@ async function setupTrackPlayer() {
 	if (musicApiLists) {
 		musicApiStore.setValue(musicApiLists)
 	}
+	if (musicApiOrder) {
+		musicApiOrderStore.setValue(musicApiOrder)
+	}
 	if (selectedMusicApi) {
 		musicApiSelectedStore.setValue(selectedMusicApi)
 		await reloadNowSelectedMusicApi()
@@ -131,8 +245,20 @@ async function setupTrackPlayer() {
 	if (importedLocalMusic) {
 		importedLocalMusicStore.setValue(importedLocalMusic)
 	}
+	setupPlayHistory()
+	setupUpNext()
+	setupDislikeList()
 	if (musicQueue && Array.isArray(musicQueue)) {
-		addAll(musicQueue, undefined, repeatMode === MusicRepeatMode.SHUFFLE)
+		// 保存的就是打乱后的顺序，不需要再次打乱
+		addAll(musicQueue)
+	}
+	if (track && isInPlayList(track)) {
+		// 异步恢复，不阻塞启动
+		restorePlaybackSession(
+			track,
+			progress,
+			Config.get('setting.basic.autoPlayWhenAppStart') ?? false,
+		)
 	}
 	if (autoCacheLocal == true || autoCacheLocal == false) {
 		autoCacheLocalStore.setValue(autoCacheLocal)
@@ -146,16 +272,70 @@ async function setupTrackPlayer() {
 	if (songsNumsToLoad) {
 		songsNumsToLoadStore.setValue(songsNumsToLoad)
 	}
+	if (prefetchSeconds !== null) {
+		prefetchSecondsStore.setValue(prefetchSeconds)
+	}
+	if (shuffleWeight) {
+		shuffleWeightStore.setValue(shuffleWeight)
+	}
 	if (!hasSetupListener) {
 		ReactNativeTrackPlayer.addEventListener(Event.PlaybackActiveTrackChanged, async (evt) => {
 			if (evt.index === 1 && evt.lastIndex === 0 && evt.track?.$ === internalFakeSoundKey) {
 				logInfo('队列末尾，播放下一首')
-				if (repeatModeStore.getValue() === MusicRepeatMode.SINGLE) {
-					await play(null, true)
-				} else {
-					// 当前生效的歌曲是下一曲的标记
-					await skipToNext()
+				await handleTrackEnd()
+			}
+		})
+
+		ReactNativeTrackPlayer.addEventListener(Event.PlaybackProgressUpdated, (evt) => {
+			if (evt.track === 0) {
+				// 相邻两次进度差在正常范围内才计入收听时长，排除拖动进度
+				const delta = evt.position - lastKnownPosition
+				if (playSession && delta > 0 && delta <= 2) {
+					playSession.listenedDuration += delta
+				}
+				if (playSession && evt.duration > 0) {
+					playSession.duration = evt.duration
+				}
+				if (playSession) {
+					checkScrobble(
+						playSession.musicItem,
+						playSession.playedAt,
+						playSession.listenedDuration,
+						playSession.duration,
+					)
+				}
+				lastKnownPosition = evt.position
+				// 到达设置的结束位置，当作播放完成
+				if (
+					currentTrackTrim.end &&
+					evt.position >= currentTrackTrim.end &&
+					!abLoopStore.getValue()?.end
+				) {
+					logInfo('到达设置的结束位置，播放下一首')
+					handleTrackEnd()
 				}
+				// 定期保存播放进度，用于下次启动时恢复
+				if (Date.now() - lastProgressSavedAt >= progressSaveInterval) {
+					lastProgressSavedAt = Date.now()
+					PersistStatus.set('music.progress', evt.position)
+				}
+			}
+			const prefetchSeconds = prefetchSecondsStore.getValue()
+			if (
+				prefetchSeconds > 0 &&
+				evt.track === 0 &&
+				evt.duration > 0 &&
+				evt.duration - evt.position <= prefetchSeconds
+			) {
+				prefetchNextMusic()
+			}
+			if (
+				evt.track === 0 &&
+				evt.duration > 0 &&
+				evt.duration - evt.position <= Math.max(prefetchSeconds, radioLeadSeconds) &&
+				shouldExtendWithRadio()
+			) {
+				extendPlayListWithRadio()
 			}
 		})
 
@@ -180,15 +360,155 @@ async function setupTrackPlayer() {
 					code: e.code,
 				})
 
-				await failToPlay()
+				if (!(await recoverFromPlaybackError())) {
+					await failToPlay()
+				}
 			}
 		})
 
+		AppState.addEventListener('change', async (nextAppState) => {
+			// 进入后台时保存播放进度，避免被系统杀死后丢失
+			if (nextAppState === 'background' && currentMusicStore.getValue()) {
+				const { position } = await ReactNativeTrackPlayer.getProgress()
+				PersistStatus.set('music.progress', position)
+			}
+		})
+
+		setupScrobbler()
+
 		hasSetupListener = true
 		logInfo('播放器初始化完成')
 	}
 }
 
+/** 当前歌曲播放完(或到达设置的结束位置)，按播放模式继续播放 */
+async function handleTrackEnd() {
+	if (isHandlingTrackEnd) {
+		return
+	}
+	isHandlingTrackEnd = true
+	try {
+		finishPlaySession(false)
+		if (trackEndInterceptor?.()) {
+			// 停在刚播放完的歌曲开头
+			await ReactNativeTrackPlayer.pause()
+			await ReactNativeTrackPlayer.skip(0)
+			await ReactNativeTrackPlayer.seekTo(currentTrackTrim.start)
+			PersistStatus.set('music.progress', currentTrackTrim.start)
+			return
+		}
+		if (repeatModeStore.getValue() === MusicRepeatMode.SINGLE) {
+			await play(null, true)
+		} else {
+			// 当前生效的歌曲是下一曲的标记
+			await skipToNext()
+		}
+	} finally {
+		isHandlingTrackEnd = false
+	}
+}
+
+/**
+ * 开始记录当前歌曲的收听情况
+ * @param musicItem 歌曲，保存原始信息，获取到的链接会过期
+ * @param track 已设置到播放器的歌曲，用于记录提供链接的音源
+ */
+function startPlaySession(musicItem: IMusic.IMusicItem, track: IMusic.IMusicItem) {
+	finishPlaySession(true)
+	playSession = {
+		musicItem,
+		playedAt: Date.now(),
+		musicApiId: track.musicApiId,
+		musicApiName: track.musicApiName,
+		listenedDuration: 0,
+		duration: musicItem.duration || 0,
+	}
+}
+
+/**
+ * 结束当前歌曲的收听记录并写入播放记录
+ * @param skipped 是否在播放完之前被切走
+ */
+function finishPlaySession(skipped: boolean) {
+	if (!playSession) {
+		return
+	}
+	const { listenedDuration, ...rest } = playSession
+	playSession = null
+	// 没有实际收听的不记录
+	if (listenedDuration < 1) {
+		return
+	}
+	const historyItem: IMusic.IPlayHistoryItem = {
+		...rest,
+		listenedDuration: Math.round(listenedDuration),
+		skipped,
+	}
+	addPlayHistory(historyItem)
+	recordListening(historyItem)
+}
+
+/**
+ * 恢复上次的播放会话：当前歌曲和播放进度
+ * @param track 上次播放的歌曲
+ * @param progress 上次的播放进度
+ * @param autoPlay 是否恢复后自动播放
+ */
+async function restorePlaybackSession(
+	track: IMusic.IMusicItem,
+	progress: number | null,
+	autoPlay: boolean,
+) {
+	// 保存的 track 带有上次获取的链接，可能已经过期，使用队列中的歌曲重新获取
+	const musicItem = getPlayListMusicAt(getMusicIndex(track))
+	if (!musicItem) {
+		return
+	}
+	setCurrentMusic(musicItem)
+	logInfo('恢复上次播放:', musicItem.title, progress)
+
+	try {
+		let source: IPlugin.IMediaSourceResult & { musicApiId?: string; musicApiName?: string } = {
+			url: musicItem.url,
+		}
+		if (await isCached(musicItem)) {
+			source = { url: getLocalFilePath(musicItem) }
+		} else if (musicItem.url == 'Unknown' || musicItem.url.includes('fake')) {
+			const resolved = await getMusicUrl(musicItem, qualityStore.getValue())
+			if (!resolved) {
+				return
+			}
+			source = {
+				url: resolved.url,
+				musicApiId: resolved.musicApiId,
+				musicApiName: resolved.musicApiName,
+			}
+		}
+		// 恢复期间用户已经开始播放其他歌曲
+		if (!isCurrentMusic(musicItem)) {
+			return
+		}
+		const restoredTrack = mergeProps(musicItem, {
+			...source,
+			// 不自动播放时标记为初始化，避免初始失败时触发错误处理
+			isInit: autoPlay ? undefined : true,
+		}) as IMusic.IMusicItem
+		await setTrackSource(restoredTrack as Track, autoPlay)
+		await applyPlaybackRate(musicItem)
+		startPlaySession(musicItem, restoredTrack)
+		currentTrackTrim = getTrackTrim(musicItem)
+		if (progress) {
+			await ReactNativeTrackPlayer.seekTo(progress)
+			PersistStatus.set('music.progress', progress)
+		} else if (currentTrackTrim.start) {
+			await ReactNativeTrackPlayer.seekTo(currentTrackTrim.start)
+		}
+		nowLyricState.setValue(await getLyric(musicItem))
+	} catch (error) {
+		logError('恢复上次播放失败:', error)
+	}
+}
+
 /**
  * 获取自动播放的下一个track，保持nextTrack 不变,生成nextTrack的with fake url 形式  假音频
  * 获取下一个 track 并设置其属性为假音频。这在测试或处理特殊情况时非常有用
@@ -202,8 +522,8 @@ const getFakeNextTrack = () => {
 		// 单曲循环
 		track = getPlayListMusicAt(currentIndex) as Track
 	} else {
-		// 下一曲
-		track = getPlayListMusicAt(currentIndex + 1) as Track
+		// 下一曲，优先"接下来播放"队列
+		track = (getUpNext()[0] ?? getPlayListMusicAt(currentIndex + 1)) as Track
 	}
 
 	try {
@@ -226,6 +546,77 @@ const getFakeNextTrack = () => {
 	}
 }
 
+/**
+ * 播放中断时重新获取链接，并从中断的位置继续播放
+ * 第一次按原音质重新获取(链接可能已过期)，之后逐级降低音质，并把出错的音源放到最后尝试
+ * @returns 是否恢复成功，失败时由调用方决定后续处理
+ */
+async function recoverFromPlaybackError() {
+	const musicItem = currentMusicStore.getValue()
+	// 只有通过音源获取链接的歌曲才能重新获取
+	if (!musicItem || !(musicItem.url == 'Unknown' || musicItem.url.includes('fake'))) {
+		return false
+	}
+	if (playbackRetryCount >= maxPlaybackRetryCount) {
+		logWarn(`播放恢复: ${musicItem.title} 已重试${playbackRetryCount}次，放弃恢复`)
+		return false
+	}
+	playbackRetryCount++
+
+	const currentTrack = await ReactNativeTrackPlayer.getTrack(0)
+	const { position } = await ReactNativeTrackPlayer.getProgress()
+	const resumePosition = Math.max(position, lastKnownPosition)
+	let quality = qualityStore.getValue()
+	for (let i = 1; i < playbackRetryCount; i++) {
+		quality = getLowerQuality(quality)
+	}
+	logWarn(
+		`播放恢复: 第${playbackRetryCount}次重新获取 ${musicItem.title}，音质 ${quality}，从 ${resumePosition.toFixed(1)}s 继续`,
+	)
+
+	MediaCache.invalidateMusicUrl(musicItem)
+	// 换过源的歌曲播放的是匹配到的歌曲，它的链接同样可能已过期
+	const rememberedMatch = getRememberedMatch(musicItem)
+	if (rememberedMatch) {
+		MediaCache.invalidateMusicUrl(rememberedMatch)
+	}
+	const musicApiChain = getMusicApiChain()
+	const failedMusicApiId = currentTrack?.musicApiId
+	if (playbackRetryCount > 1 && failedMusicApiId) {
+		musicApiChain.sort(
+			(a, b) => Number(a.id === failedMusicApiId) - Number(b.id === failedMusicApiId),
+		)
+	}
+
+	try {
+		const resolved = await getMusicUrlWithMatch(musicItem, quality, musicApiChain)
+		if (!resolved) {
+			return false
+		}
+		if (!isCurrentMusic(musicItem)) {
+			// 重新获取期间已经切歌
+			return true
+		}
+		const track = mergeProps(musicItem, {
+			url: resolved.url,
+			musicApiId: resolved.musicApiId,
+			musicApiName: resolved.musicApiName,
+		}) as IMusic.IMusicItem
+		await setTrackSource(track as Track)
+		if (resumePosition > 0) {
+			await ReactNativeTrackPlayer.seekTo(resumePosition)
+		}
+		if (resolved.quality !== qualityStore.getValue()) {
+			showToast('提示', `播放中断，已切换至${resolved.quality}音质继续播放`, 'info')
+		}
+		logInfo(`播放恢复: 已通过音源 ${resolved.musicApiName}(${resolved.quality}) 恢复播放`)
+		return true
+	} catch (error) {
+		logError('播放恢复: 重新获取链接失败:', error)
+		return false
+	}
+}
+
 /** 播放失败时的情况 */
 async function failToPlay() {
 	// 自动跳转下一曲, 500s后自动跳转
@@ -234,6 +625,78 @@ async function failToPlay() {
 	await skipToNext()
 }
 
+/**
+ * 生成随机播放的列表，同时记录原始顺序，退出随机播放或重启后都能恢复
+ * @param playList 原始顺序的列表
+ * @param firstItem 放在最前面的歌曲(通常是马上要播放的)
+ */
+function shufflePlayList(playList: IMusic.IMusicItem[], firstItem?: IMusic.IMusicItem | null) {
+	PersistStatus.set('music.playListOrder', playList.map(getMediaKey))
+	const first = firstItem ? playList.find((item) => isSameMediaItem(item, firstItem)) : undefined
+	const shuffled = smartShuffle(
+		playList.filter((item) => item !== first),
+		{
+			getWeight: getShuffleWeight(),
+			getArtist: (item) => item.artist,
+		},
+	)
+	return first ? [first, ...shuffled] : shuffled
+}
+
+/** 恢复随机播放前的顺序，随机播放期间新加入的歌曲放在最后 */
+function unshufflePlayList(playList: IMusic.IMusicItem[]) {
+	const playListOrder = PersistStatus.get('music.playListOrder')
+	PersistStatus.set('music.playListOrder', undefined)
+	if (!playListOrder) {
+		return sortByTimestampAndIndex(playList, true)
+	}
+	const orderMap = new Map(playListOrder.map((key, index) => [key, index]))
+	return [...playList].sort(
+		(a, b) =>
+			(orderMap.get(getMediaKey(a)) ?? Infinity) - (orderMap.get(getMediaKey(b)) ?? Infinity),
+	)
+}
+
+/** 按设置获取随机播放的权重函数 */
+function getShuffleWeight(): ((item: IMusic.IMusicItem) => number) | undefined {
+	switch (shuffleWeightStore.getValue()) {
+		case 'favorite': {
+			const favorites = new Set((PersistStatus.get('music.favorites') || []).map(getMediaKey))
+			return (item) => (favorites.has(getMediaKey(item)) ? 3 : 1)
+		}
+		case 'playCount': {
+			const playCounts = getTrackPlayCounts()
+			return (item) => 1 + Math.log2(1 + (playCounts.get(getMediaKey(item)) ?? 0))
+		}
+		default:
+			return undefined
+	}
+}
+
+/** 设置随机播放的权重 */
+const setShuffleWeight = (weight: ShuffleWeight) => {
+	PersistStatus.set('music.shuffleWeight', weight)
+	shuffleWeightStore.setValue(weight)
+}
+
+/**
+ * 随机播放整个列表
+ * @param tracks 原始顺序的列表
+ */
+const playWithShuffle = async (tracks: IMusic.IMusicItem[]) => {
+	// 随机播放时跳过不喜欢的歌曲，全部都是时仍然播放
+	const allowedTracks = filterDisliked(tracks)
+	const _tracks = allowedTracks.length ? allowedTracks : tracks
+	if (!_tracks.length) {
+		return
+	}
+	const shuffled = shufflePlayList(_tracks)
+	setPlayList(shuffled)
+	repeatModeStore.setValue(MusicRepeatMode.SHUFFLE)
+	PersistStatus.set('music.repeatMode', MusicRepeatMode.SHUFFLE)
+	await play(shuffled[0], true)
+}
+
 // 播放模式相关
 const _toggleRepeatMapping = {
 	[MusicRepeatMode.SHUFFLE]: MusicRepeatMode.SINGLE,
@@ -279,7 +742,7 @@ const addAll = (
 
 	// 2. 如果需要随机
 	if (shouldShuffle) {
-		newPlayList = shuffle(newPlayList)
+		newPlayList = smartShuffle(newPlayList, { getArtist: (item) => item.artist })
 	}
 	// 3. 设置播放列表
 	setPlayList(newPlayList)
@@ -287,7 +750,7 @@ const addAll = (
 
 	// 4. 重置下标
 	if (currentMusicItem) {
-		currentIndex = getMusicIndex(currentMusicItem)
+		updateCurrentIndex()
 	}
 
 	// TODO: 更新播放队列信息
@@ -299,16 +762,157 @@ const add = (musicItem: IMusic.IMusicItem | IMusic.IMusicItem[], beforeIndex?: n
 	addAll(Array.isArray(musicItem) ? musicItem : [musicItem], beforeIndex)
 }
 
+/** "接下来播放"队列变化时，更新假音频中下一首的信息 */
+const updateFakeNextTrack = () => {
+	if (currentMusicStore.getValue()) {
+		ReactNativeTrackPlayer.updateMetadataForTrack(1, getFakeNextTrack()).catch(() => {})
+	}
+}
+
 /**
- * 下一首播放
+ * 下一首播放，加入"接下来播放"队列的队首，不会改变播放列表
  * @param musicItem
  */
 const addAsNextTrack = (musicItem: IMusic.IMusicItem | IMusic.IMusicItem[]) => {
-	const shouldPlay = isPlayListEmpty()
-	add(musicItem, currentIndex + 1)
-	if (shouldPlay) {
-		play(Array.isArray(musicItem) ? musicItem[0] : musicItem)
+	const musicItems = Array.isArray(musicItem) ? musicItem : [musicItem]
+	if (!currentMusicStore.getValue()) {
+		// 没有正在播放的歌曲时直接播放
+		add(musicItems)
+		play(musicItems[0])
+		return
+	}
+	addToUpNext(musicItems, true)
+	updateFakeNextTrack()
+}
+
+/**
+ * 加入"接下来播放"队列的队尾
+ * @param musicItem
+ */
+const addToQueue = (musicItem: IMusic.IMusicItem | IMusic.IMusicItem[]) => {
+	const musicItems = Array.isArray(musicItem) ? musicItem : [musicItem]
+	if (!currentMusicStore.getValue()) {
+		add(musicItems)
+		play(musicItems[0])
+		return
+	}
+	addToUpNext(musicItems)
+	updateFakeNextTrack()
+}
+
+/**
+ * 修改"接下来播放"队列
+ * @param upNext 新的队列
+ */
+const setUpNextList = (upNext: IMusic.IMusicItem[]) => {
+	pushQueueUndo()
+	setUpNext(upNext)
+	updateFakeNextTrack()
+}
+
+/** 修改播放列表前保存快照 */
+const pushQueueUndo = () => {
+	queueUndoStack = [...queueUndoStack, { playList: getPlayList(), upNext: getUpNext() }].slice(
+		-maxQueueUndoLength,
+	)
+	queueUndoCountStore.setValue(queueUndoStack.length)
+}
+
+/**
+ * 撤销上一次对播放列表的修改(移动、移除、清空)，不会改变正在播放的歌曲
+ * @returns 是否有可以撤销的修改
+ */
+const undoQueueChange = () => {
+	const snapshot = queueUndoStack.pop()
+	queueUndoCountStore.setValue(queueUndoStack.length)
+	if (!snapshot) {
+		return false
+	}
+	setPlayList(snapshot.playList)
+	setUpNext(snapshot.upNext)
+	updateCurrentIndex()
+	updateFakeNextTrack()
+	return true
+}
+
+/** 把数组中的一项移动到新位置，超出范围时返回 null */
+const moveItem = <T>(list: T[], fromIndex: number, toIndex: number) => {
+	if (
+		fromIndex === toIndex ||
+		fromIndex < 0 ||
+		toIndex < 0 ||
+		fromIndex >= list.length ||
+		toIndex >= list.length
+	) {
+		return null
+	}
+	const newList = [...list]
+	const [item] = newList.splice(fromIndex, 1)
+	newList.splice(toIndex, 0, item)
+	return newList
+}
+
+/**
+ * 移动播放列表中的歌曲
+ * @param fromIndex 原位置
+ * @param toIndex 新位置
+ */
+const move = (fromIndex: number, toIndex: number) => {
+	const newPlayList = moveItem(getPlayList(), fromIndex, toIndex)
+	if (!newPlayList) {
+		return
 	}
+	pushQueueUndo()
+	// setPlayList 会重建下标映射
+	setPlayList(newPlayList)
+	updateCurrentIndex()
+	updateFakeNextTrack()
+}
+
+/**
+ * 移动"接下来播放"队列中的歌曲
+ * @param fromIndex 原位置
+ * @param toIndex 新位置
+ */
+const moveUpNext = (fromIndex: number, toIndex: number) => {
+	const newUpNext = moveItem(getUpNext(), fromIndex, toIndex)
+	if (!newUpNext) {
+		return
+	}
+	pushQueueUndo()
+	setUpNext(newUpNext)
+	updateFakeNextTrack()
+}
+
+/**
+ * 把"接下来播放"队列和播放列表保存为歌单
+ * @param name 歌单名
+ */
+const saveQueueAsPlayList = (name: string) => {
+	const playList = getPlayList()
+	const songs = [...getUpNext().filter((item) => !isInPlayList(item)), ...playList]
+	const newPlayList = {
+		id: Date.now().toString(),
+		platform: 'QQ',
+		artist: '未知歌手',
+		name,
+		title: name,
+		songs,
+		artwork: songs[0]?.artwork || unknownTrackImageUri,
+		tracks: [],
+	}
+	addPlayLists(newPlayList as IMusic.PlayList)
+	return newPlayList
+}
+
+/**
+ * 播放"接下来播放"队列中的歌曲，排在它前面的歌曲保留
+ * @param musicItem 歌曲
+ */
+const playUpNext = async (musicItem: IMusic.IMusicItem) => {
+	setUpNext(getUpNext().filter((item) => !isSameMediaItem(item, musicItem)))
+	pendingUpNextItem = musicItem
+	await play(musicItem, true)
 }
 /**
  * 是当前正在播放的音频
@@ -331,8 +935,9 @@ const remove = async (musicItem: IMusic.IMusicItem) => {
 		// 1. 这种情况应该是出错了
 		return
 	}
-	// 2. 移除的是当前项
-	if (currentIndex === targetIndex) {
+	pushQueueUndo()
+	// 2. 移除的是当前项(播放"接下来播放"队列时，当前项不在播放列表中)
+	if (currentIndex === targetIndex && !isPlayingUpNext) {
 		// 2.1 停止播放，移除当前项
 		newPlayList = produce(playList, (draft) => {
 			draft.splice(targetIndex, 1)
@@ -359,6 +964,10 @@ const remove = async (musicItem: IMusic.IMusicItem) => {
 		newPlayList = produce(playList, (draft) => {
 			draft.splice(targetIndex, 1)
 		})
+		// 移除的是播放列表中的当前位置，之后从它的下一首继续
+		if (isPlayingUpNext && isSameMediaItem(musicItem, contextMusic)) {
+			contextMusic = newPlayList[targetIndex - 1] ?? null
+		}
 	}
 
 	setPlayList(newPlayList)
@@ -384,15 +993,14 @@ const setRepeatMode = (mode: MusicRepeatMode) => {
 		(mode === MusicRepeatMode.SHUFFLE && prevMode !== MusicRepeatMode.SHUFFLE)
 	) {
 		if (mode === MusicRepeatMode.SHUFFLE) {
-			newPlayList = shuffle(playList)
+			newPlayList = shufflePlayList(playList, currentMusicStore.getValue())
 		} else {
-			newPlayList = sortByTimestampAndIndex(playList, true)
+			newPlayList = unshufflePlayList(playList)
 		}
 		setPlayList(newPlayList)
 	}
 
-	const currentMusicItem = currentMusicStore.getValue()
-	currentIndex = getMusicIndex(currentMusicItem)
+	updateCurrentIndex()
 	repeatModeStore.setValue(mode)
 	// 更新下一首歌的信息
 	ReactNativeTrackPlayer.updateMetadataForTrack(1, getFakeNextTrack())
@@ -402,7 +1010,9 @@ const setRepeatMode = (mode: MusicRepeatMode) => {
 
 /** 清空播放列表 */
 const clear = async () => {
+	pushQueueUndo()
 	setPlayList([])
+	setUpNext([])
 	setCurrentMusic(null)
 
 	await ReactNativeTrackPlayer.reset()
@@ -411,6 +1021,8 @@ const clear = async () => {
 }
 /** 清空待播列表 */
 const clearToBePlayed = async () => {
+	pushQueueUndo()
+	setUpNext([])
 	// 获取当前正在播放的音乐
 	const currentMusic = currentMusicStore.getValue()
 
@@ -458,13 +1070,23 @@ const setTrackSource = async (track: Track, autoPlay = true) => {
 const setCurrentMusic = (musicItem?: IMusic.IMusicItem | null) => {
 	if (!musicItem) {
 		currentIndex = -1
+		isPlayingUpNext = false
+		contextMusic = null
 		currentMusicStore.setValue(null)
 		PersistStatus.set('music.musicItem', undefined)
 		PersistStatus.set('music.progress', 0)
 		return
 	}
-	currentIndex = getMusicIndex(musicItem)
 	currentMusicStore.setValue(musicItem)
+	if (!isPlayingUpNext) {
+		contextMusic = musicItem
+	}
+	updateCurrentIndex()
+}
+
+/** 更新当前歌曲在播放列表中的下标，播放"接下来播放"队列时保持在播放列表中的位置 */
+const updateCurrentIndex = () => {
+	currentIndex = getMusicIndex(isPlayingUpNext ? contextMusic : currentMusicStore.getValue())
 }
 
 const setQuality = (quality: IMusic.IQualityKey) => {
@@ -593,7 +1215,28 @@ const getPlayListById = (playlistId: string) => {
 		logError('Error find playlist:', error)
 	}
 }
-const addMusicApi = (musicApi: IMusic.MusicApi) => {
+/** 覆盖已存在的音源，保留原有的选中状态 */
+const replaceMusicApi = (existingApiIndex: number, musicApi: IMusic.MusicApi) => {
+	const updatedMusicApiList = [...(musicApiStore.getValue() || [])]
+	const isSelected = updatedMusicApiList[existingApiIndex].isSelected
+	updatedMusicApiList[existingApiIndex] = { ...musicApi, isSelected }
+	musicApiStore.setValue(updatedMusicApiList)
+	PersistStatus.set('music.musicApi', updatedMusicApiList)
+	loadedMusicApis.delete(musicApi.id)
+	// 当前选中的音源需要重新加载新的脚本
+	if (isSelected || musicApiSelectedStore.getValue()?.id === musicApi.id) {
+		const reloadedApi = reloadMusicApi({ ...musicApi, isSelected: true })
+		musicApiSelectedStore.setValue(reloadedApi)
+		PersistStatus.set('music.selectedMusicApi', reloadedApi)
+	}
+	logInfo('Music API updated successfully')
+}
+/**
+ * 导入音源，已存在同 id 的音源时询问是否覆盖
+ * @param musicApi 音源
+ * @param overwrite 为 true 时直接覆盖已存在的音源，不再询问，用于更新和回滚
+ */
+const addMusicApi = (musicApi: IMusic.MusicApi, overwrite = false) => {
 	try {
 		const nowMusicApiList = musicApiStore.getValue() || []
 
@@ -602,20 +1245,14 @@ const addMusicApi = (musicApi: IMusic.MusicApi) => {
 			(existingApi) => existingApi.id === musicApi.id,
 		)
 
-		if (existingApiIndex !== -1) {
+		if (existingApiIndex !== -1 && overwrite) {
+			replaceMusicApi(existingApiIndex, musicApi)
+		} else if (existingApiIndex !== -1) {
 			Alert.alert('是否覆盖', `已经存在该音源，是否覆盖？`, [
 				{
 					text: '确定',
 					onPress: () => {
-						const updatedMusicApiList = [...nowMusicApiList]
-						// 保留原有的 isSelected 状态
-						updatedMusicApiList[existingApiIndex] = {
-							...musicApi,
-							isSelected: updatedMusicApiList[existingApiIndex].isSelected,
-						}
-						musicApiStore.setValue(updatedMusicApiList)
-						PersistStatus.set('music.musicApi', updatedMusicApiList)
-						logInfo('Music API updated successfully')
+						replaceMusicApi(existingApiIndex, musicApi)
 						Alert.alert('成功', '音源更新成功', [
 							{ text: '确定', onPress: () => logInfo('Update alert closed') },
 						])
@@ -649,6 +1286,50 @@ const addMusicApi = (musicApi: IMusic.MusicApi) => {
 		])
 	}
 }
+/**
+ * 不执行脚本，查找已导入的同一音源：
+ * 洛雪音乐自定义源按头部信息计算 id，其他音源按导入地址或头部注释中的名称
+ */
+const findImportedMusicApi = (script: string, source: IScriptSource) => {
+	const musicApis = musicApiStore.getValue() || []
+	if (source.id) {
+		return musicApis.find((api) => api.id === source.id)
+	}
+	if (isLxUserApiScript(script)) {
+		const id = getLxMusicApiId(parseLxScriptInfo(script))
+		return musicApis.find((api) => api.id === id)
+	}
+	const headerName = getScriptHeaderInfo(script)?.name
+	return musicApis.find(
+		(api) =>
+			(!!source.srcUrl && api.srcUrl === source.srcUrl) ||
+			(!!headerName && api.name === headerName),
+	)
+}
+/**
+ * 显示脚本信息，用户确认信任后才执行脚本并导入音源
+ * 已存在同 id 的音源时直接覆盖
+ * @param script 脚本内容
+ * @param source 脚本来源，srcUrl 用于检查更新
+ * @returns 是否导入
+ */
+const importMusicApi = async (script: string, source: IScriptSource) => {
+	const integrity = await confirmSourceTrust(script, source, findImportedMusicApi(script, source))
+	if (!integrity) {
+		return false
+	}
+	// 洛雪音乐格式的自定义源需要等待初始化，其他音源直接读取导出的信息
+	let musicApi: IMusic.MusicApi
+	if (isLxUserApiScript(script)) {
+		const lxMusicApi = await createLxMusicApi(script)
+		musicApi = { ...lxMusicApi, id: source.id || lxMusicApi.id, srcUrl: source.srcUrl ?? '' }
+	} else {
+		musicApi = createMusicApiFromScript(script, source)
+	}
+	const exists = (musicApiStore.getValue() || []).some((api) => api.id === musicApi.id)
+	addMusicApi({ ...musicApi, hash: integrity.hash, signatureKey: integrity.signatureKey }, exists)
+	return true
+}
 const reloadNowSelectedMusicApi = async () => {
 	try {
 		// 获取当前存储的所有音源脚本
@@ -684,28 +1365,129 @@ const reloadMusicApi = (musicApi: IMusic.MusicApi, isTest: boolean = false): IMu
 	}
 
 	try {
-		// 创建一个新的上下文来执行脚本
-		const context: any = {
-			module: { exports: {} },
-			exports: {},
-			require: () => {}, // 如果脚本中有 require 调用，你需要在这里实现
+		// 导入后脚本被修改过时不加载
+		if (!isScriptUnchanged(musicApi)) {
+			throw new SandboxError(`音源 ${musicApi.name} 的脚本与导入时不一致，请重新导入`)
 		}
-
-		// 执行脚本
-		const scriptFunction = new Function('module', 'exports', 'require', musicApi.script)
-		scriptFunction.call(context, context.module, context.exports, context.require)
+		// 洛雪音乐格式的自定义源，通过 request 事件获取链接、歌词和封面
+		if (isLxUserApiScript(musicApi.script)) {
+			const lxUserApi = loadLxUserApi(musicApi.script, {
+				allowedDomains: musicApi.allowedDomains,
+				globals: { env: createSourceEnv(musicApi.id) },
+			})
+			return {
+				...musicApi,
+				getMusicUrl: lxUserApi.getMusicUrl,
+				getLyric: lxUserApi.getLyric,
+				getPic: lxUserApi.getPic,
+			}
+		}
+		// 在沙箱中执行脚本，注入用户填写的变量
+		const exports = runSourceScript(musicApi.script, {
+			name: musicApi.name,
+			allowedDomains: musicApi.allowedDomains,
+			globals: { env: createSourceEnv(musicApi.id) },
+		})
 
 		// 更新 MusicApi 对象
 		return {
 			...musicApi,
-			getMusicUrl: context.module.exports.getMusicUrl || musicApi.getMusicUrl,
+			getMusicUrl: exports.getMusicUrl || musicApi.getMusicUrl,
+			timeout: exports.timeout ?? musicApi.timeout,
+			qualityOrder: exports.qualityOrder ?? musicApi.qualityOrder,
+			urlTTL: exports.urlTTL ?? musicApi.urlTTL,
+			userVariables: exports.userVariables ?? musicApi.userVariables,
 		}
 	} catch (error) {
 		logError(`Error reloading script for API "${musicApi.name}":`, error)
 		return musicApi // 返回原始对象，以防出错
 	}
 }
-const setMusicApiAsSelectedById = async (musicApiId: string) => {
+/** 已加载脚本的音源，按 id 缓存 */
+const loadedMusicApis = new Map<string, IMusic.MusicApi>()
+const getLoadedMusicApi = (musicApi: IMusic.MusicApi) => {
+	const selectedApi = musicApiSelectedStore.getValue()
+	if (selectedApi?.id === musicApi.id && typeof selectedApi.getMusicUrl === 'function') {
+		return selectedApi
+	}
+	const cached = loadedMusicApis.get(musicApi.id)
+	if (cached && cached.script === musicApi.script) {
+		return cached
+	}
+	const loadedApi = reloadMusicApi(musicApi, true)
+	loadedMusicApis.set(musicApi.id, loadedApi)
+	return loadedApi
+}
+/**
+ * 获取按优先级排列、已加载脚本的音源列表
+ * 当前选中的音源在最前，其余按用户设置的顺序
+ */
+const getMusicApiChain = (): IMusic.MusicApi[] => {
+	const musicApis = musicApiStore.getValue() || []
+	const selectedApi = musicApiSelectedStore.getValue()
+	const chain = sortMusicApis(musicApis, musicApiOrderStore.getValue(), selectedApi?.id)
+	if (selectedApi && !chain.some((api) => api.id === selectedApi.id)) {
+		chain.unshift(selectedApi)
+	}
+	return chain.map(getLoadedMusicApi)
+}
+/** 设置音源优先级 */
+const setMusicApiOrder = (musicApiIds: string[]) => {
+	musicApiOrderStore.setValue(musicApiIds)
+	PersistStatus.set('music.musicApiOrder', musicApiIds)
+}
+/** 记录音源状态，有耗时信息时同时记录到历史 */
+const setMusicApiState = (musicApi: IMusic.MusicApi, error?: Error, attempt?: IResolveAttempt) => {
+	nowApiState.setValue((prev) => ({
+		...prev,
+		[musicApi.id]: {
+			status: error ? '异常' : '正常',
+			error: error?.message,
+			updatedAt: Date.now(),
+		},
+	}))
+	if (attempt) {
+		recordSourceHealth(musicApi.id, {
+			time: Date.now(),
+			success: !error,
+			latency: attempt.latency,
+			quality: attempt.quality,
+			error: error?.message,
+		})
+	}
+}
+/** 开启自动选择音源时，切换到成功率最高、耗时最短的音源，每次获取链接结束后调用一次 */
+const autoSelectHealthiestMusicApi = () => {
+	if (!Config.get('setting.basic.autoSelectHealthiestSource')) {
+		return
+	}
+	const musicApis = musicApiStore.getValue() || []
+	const selectedApi = musicApiSelectedStore.getValue()
+	const healthiestId = getHealthiestMusicApiId(musicApis.map((api) => api.id))
+	if (!healthiestId || healthiestId === selectedApi?.id) {
+		return
+	}
+	if (selectedApi) {
+		const selectedSummary = getSourceHealthSummary(selectedApi.id)
+		// 当前音源记录太少或不比最健康的音源差时，不切换
+		if (
+			selectedSummary.total < minRecordsToCompare ||
+			compareSourceHealth(getSourceHealthSummary(healthiestId), selectedSummary) >= 0
+		) {
+			return
+		}
+	}
+	const healthiestApi = musicApis.find((api) => api.id === healthiestId)
+	logInfo(`自动选择音源: ${healthiestApi?.name}`)
+	setMusicApiAsSelectedById(healthiestId, false)
+	showToast('提示', `已自动切换至音源 ${healthiestApi?.name}`, 'info')
+}
+/**
+ * 设置当前选中的音源
+ * @param musicApiId 音源 id
+ * @param showAlert 是否提示结果
+ */
+const setMusicApiAsSelectedById = async (musicApiId: string, showAlert = true) => {
 	try {
 		// 获取当前存储的所有音源脚本
 		let musicApis: IMusic.MusicApi[] = musicApiStore.getValue() || []
@@ -737,13 +1519,26 @@ const setMusicApiAsSelectedById = async (musicApiId: string) => {
 		PersistStatus.set('music.selectedMusicApi', reloadedApi)
 
 		logInfo(`Music API "${reloadedApi.name}" set as selected and reloaded successfully`)
-		Alert.alert('成功', `音源 "${reloadedApi.name}" 已设置为当前选中并重新加载`)
+		if (showAlert) {
+			Alert.alert('成功', `音源 "${reloadedApi.name}" 已设置为当前选中并重新加载`)
+		}
 	} catch (error) {
 		logError('Error setting music API as selected:', error)
 		Alert.alert('错误', '设置选中音源时发生错误')
 	}
 }
 
+/**
+ * 音源的用户变量等配置变化后，重新加载脚本
+ * @param musicApiId 音源 id
+ */
+const refreshMusicApi = (musicApiId: string) => {
+	loadedMusicApis.delete(musicApiId)
+	if (musicApiSelectedStore.getValue()?.id === musicApiId) {
+		reloadNowSelectedMusicApi()
+	}
+}
+
 const deleteMusicApiById = (musicApiId: string) => {
 	const selectedMusicApi = musicApiSelectedStore.getValue()
 	const musicApis = musicApiStore.getValue() || []
@@ -753,6 +1548,9 @@ const deleteMusicApiById = (musicApiId: string) => {
 	const musicApisFiltered = musicApis.filter((musicApi) => musicApi.id !== musicApiId)
 	musicApiStore.setValue(musicApisFiltered)
 	PersistStatus.set('music.musicApi', musicApisFiltered)
+	loadedMusicApis.delete(musicApiId)
+	removeUserVariables(musicApiId)
+	setMusicApiOrder(musicApiOrderStore.getValue().filter((id) => id !== musicApiId))
 	logInfo('Music API deleted successfully')
 	Alert.alert('成功', '音源删除成功', [
 		{ text: '确定', onPress: () => logInfo('Add alert closed') },
@@ -768,6 +1566,8 @@ const deleteMusicApiById = (musicApiId: string) => {
  * @returns
  */
 const play = async (musicItem?: IMusic.IMusicItem | null, forcePlay?: boolean) => {
+	const fromUpNext = !!musicItem && !!isSameMediaItem(musicItem, pendingUpNextItem)
+	pendingUpNextItem = null
 	try {
 		if (!musicItem) {
 			musicItem = currentMusicStore.getValue()
@@ -787,7 +1587,7 @@ const play = async (musicItem?: IMusic.IMusicItem | null, forcePlay?: boolean) =
 				}
 				if (forcePlay) {
 					// 2.1.1 强制重新开始
-					await ReactNativeTrackPlayer.seekTo(0)
+					await ReactNativeTrackPlayer.seekTo(currentTrackTrim.start)
 				}
 				const currentState = (await ReactNativeTrackPlayer.getPlaybackState()).state
 				if (currentState === State.Stopped) {
@@ -804,13 +1604,20 @@ const play = async (musicItem?: IMusic.IMusicItem | null, forcePlay?: boolean) =
 		}
 
 		// 3. 如果没有在播放列表中，添加到队尾；同时更新列表状态
+		// 来自"接下来播放"队列的歌曲不加入播放列表
+		isPlayingUpNext = fromUpNext
 		const inPlayList = isInPlayList(musicItem)
-		if (!inPlayList) {
+		if (!inPlayList && !fromUpNext) {
 			add(musicItem)
 		}
 
 		// 4. 更新列表状态和当前音乐
 		setCurrentMusic(musicItem)
+		prefetchedMediaKey = null
+		playbackRetryCount = 0
+		lastKnownPosition = 0
+		currentTrackTrim = getTrackTrim(musicItem)
+		setABLoop(null)
 		//reset的时机？
 		//await ReactNativeTrackPlayer.reset();
 
@@ -849,80 +1656,46 @@ const play = async (musicItem?: IMusic.IMusicItem | null, forcePlay?: boolean) =
 		if (!source) {
 			if ((!source && musicItem.url == 'Unknown') || musicItem.url.includes('fake')) {
 				logInfo('没有url')
+				let resolvedMusicApi: { musicApiId?: string; musicApiName?: string } = {}
 				let resp_url = null
-				const nowMusicApi = musicApiSelectedStore.getValue()
-				// logInfo(nowMusicApi)
-
-				if (nowMusicApi == null) {
-					showToast('错误', '获取音乐失败，请先导入音源。', 'error')
-					// Alert.alert('错误', '获取音乐失败，请先导入音源。', [
-					//     { text: '确定', onPress: () => logInfo('Alert closed') },
-					// ])
-					return
-				} else {
-					try {
-						const timeoutPromise = new Promise((_, reject) => {
-							setTimeout(() => reject(new Error('请求超时')), 5000)
-						})
-						// 定义音质降级顺序
-						const qualityOrder: IMusic.IQualityKey[] = ['flac', '320k', '128k']
-						let currentQualityIndex = qualityOrder.indexOf(qualityStore.getValue())
-
-						// 尝试不同音质，直到获取到可用的URL或尝试完所有音质
-						while (currentQualityIndex < qualityOrder.length && !resp_url) {
-							const currentQuality = qualityOrder[currentQualityIndex]
-							try {
-								resp_url = await Promise.race([
-									nowMusicApi.getMusicUrl(
-										musicItem.title,
-										musicItem.artist,
-										musicItem.id,
-										currentQuality,
-									),
-									timeoutPromise,
-								])
-								logInfo(`音源返回:${resp_url}`)
-								if (!resp_url || resp_url == '') {
-									logInfo(`${currentQuality}音质无可用链接，尝试下一个音质`)
-									currentQualityIndex++
-									continue
-								}
-								// 如果当前音质不是原始请求的音质，显示提示
-								if (resp_url && currentQuality !== qualityStore.getValue()) {
-									showToast('提示', `已自动切换至${currentQuality}音质`, 'info')
-									// 更新当前音质设置
-									setQuality(currentQuality)
-								}
-								logInfo(`成功获取${currentQuality}音质的音乐URL:`, resp_url)
-							} catch (error) {
-								logInfo(`${currentQuality}音质无可用链接(catch),尝试下一个音质`)
-								logError(`(catch error):`, error)
-								currentQualityIndex++
-							}
-						}
-						if (!resp_url) {
-							nowApiState.setValue('异常')
-							throw new Error('无法获取任何音质的音乐，请稍后重试。')
-						} else {
-							logInfo('最终的音乐 URL:', resp_url)
-							nowApiState.setValue('正常')
-						}
-					} catch (error) {
-						nowApiState.setValue('异常')
-						logError('获取音乐 URL 失败:', error)
-						const errorMessage =
-							error.message === '请求超时'
-								? '获取音乐超时，请稍后重试。'
-								: error.message || '获取音乐失败，请稍后重试。'
-						showToast(errorMessage, '', 'error')
-						// showErrorMessage(errorMessage)
-						resp_url = fakeAudioMp3Uri // 使用假的音频 URL 作为后备
+				const quality = qualityStore.getValue()
+
+				try {
+					const resolved = await getMusicUrlWithMatch(musicItem, quality)
+					if (!resolved) {
+						showToast('错误', '获取音乐失败，请先导入音源。', 'error')
+						return
+					}
+					resp_url = resolved.url
+					// 如果当前音质不是原始请求的音质，显示提示
+					if (resolved.quality !== quality) {
+						showToast('提示', `已自动切换至${resolved.quality}音质`, 'info')
+						// 更新当前音质设置
+						setQuality(resolved.quality)
+					}
+					if (resolved.matchedMusic) {
+						showToast(
+							'提示',
+							`已自动换源: ${resolved.matchedMusic.title} - ${resolved.matchedMusic.artist}`,
+							'info',
+						)
 					}
+					// 记录实际提供链接的音源
+					resolvedMusicApi = {
+						musicApiId: resolved.musicApiId,
+						musicApiName: resolved.musicApiName,
+					}
+					logInfo(`最终的音乐 URL(音源 ${resolved.musicApiName}, ${resolved.quality}):`, resp_url)
+				} catch (error) {
+					logError('获取音乐 URL 失败:', error)
+					showToast(error.message || '获取音乐失败，请稍后重试。', '', 'error')
+					resp_url = fakeAudioMp3Uri // 使用假的音频 URL 作为后备
 				}
 				// const resp = await myGetMusicUrl(musicItem, qualityStore.getValue())
 
 				source = {
 					url: resp_url,
+					...resolvedMusicApi,
 				}
 			} else {
 				if (musicItem.url.startsWith('file://')) {
@@ -964,10 +1737,16 @@ const play = async (musicItem?: IMusic.IMusicItem | null, forcePlay?: boolean) =
 		logInfo('获取音源成功：', track)
 		// 9. 设置音源
 		await setTrackSource(track as Track)
+		await applyPlaybackRate(musicItem)
+		if (currentTrackTrim.start) {
+			await ReactNativeTrackPlayer.seekTo(currentTrackTrim.start)
+		}
+		startPlaySession(musicItem, track)
+		updateNowPlaying(musicItem)
+		fillArtwork(musicItem).catch((error) => logError('获取封面失败:', error))
 		// 4.1 刷新歌词信息
-		const lyc = await myGetLyric(musicItem)
-		// console.debug(lyc.lyric);
-		nowLyricState.setValue(lyc.lyric)
+		const lyric = await getLyric(musicItem)
+		nowLyricState.setValue(lyric)
 		// 9.1 如果需要缓存,且不是假音频,且不是本地文件
 		if (
 			track.url !== fakeAudioMp3Uri &&
@@ -1009,6 +1788,260 @@ const play = async (musicItem?: IMusic.IMusicItem | null, forcePlay?: boolean) =
 		}
 	}
 }
+
+/**
+ * 获取播放链接，优先使用未过期的缓存
+ * @param musicItem 歌曲
+ * @param quality 期望音质
+ * @param musicApiChain 依次尝试的音源，默认按优先级
+ * @returns 没有可用音源时返回 null
+ */
+async function getMusicUrl(
+	musicItem: IMusic.IMusicItem,
+	quality: IMusic.IQualityKey,
+	musicApiChain = getMusicApiChain(),
+) {
+	const cacheItem = MediaCache.getMusicUrl(musicItem, quality)
+	if (cacheItem) {
+		logInfo('使用缓存的播放链接:', cacheItem.url)
+		return cacheItem
+	}
+	if (!musicApiChain.length) {
+		return null
+	}
+	try {
+		const resolved = await resolveMusicUrl(musicItem, musicApiChain, quality, setMusicApiState)
+		return MediaCache.setMusicUrl(musicItem, quality, resolved)
+	} finally {
+		autoSelectHealthiestMusicApi()
+	}
+}
+
+type IMatchedMusicUrl = Omit<IMusicUrlCacheItem, 'expiresAt'> & {
+	/** 跨平台匹配到的歌曲 */
+	matchedMusic?: IMusic.IMusicItem
+}
+
+/** 获取跨平台匹配到的歌曲的播放链接，酷我的歌曲不需要音源 */
+async function getMatchedMusicItemUrl(
+	matchedMusic: IMusic.IMusicItem,
+	quality: IMusic.IQualityKey,
+): Promise<IMatchedMusicUrl | null> {
+	try {
+		if (matchedMusic.platform === 'kw') {
+			const url = await getUrlFromKw(matchedMusic.id, quality)
+			return url ? { url, quality, musicApiName: '酷我音乐', matchedMusic } : null
+		}
+		const resolved = await getMusicUrl(matchedMusic, quality)
+		return resolved ? { ...resolved, matchedMusic } : null
+	} catch (error) {
+		logWarn(`跨平台匹配: ${matchedMusic.platform}/${matchedMusic.title} 获取链接失败`, error)
+		return null
+	}
+}
+
+/**
+ * 通过其他平台的同一首歌获取播放链接，优先使用记住的匹配结果
+ * @param musicItem 原歌曲
+ * @param quality 期望音质
+ * @param searchIfNeeded 没有记住的结果或记住的结果不可用时，是否重新搜索
+ * @returns 全部失败时返回 null
+ */
+async function getMatchedMusicUrl(
+	musicItem: IMusic.IMusicItem,
+	quality: IMusic.IQualityKey,
+	searchIfNeeded = true,
+) {
+	const remembered = getRememberedMatch(musicItem)
+	if (remembered) {
+		const resolved = await getMatchedMusicItemUrl(remembered, quality)
+		if (resolved) {
+			logInfo('跨平台匹配: 使用记住的结果', remembered.title)
+			return resolved
+		}
+		// 记住的结果已失效
+		rememberMatch(musicItem, null)
+	}
+	if (!searchIfNeeded) {
+		return null
+	}
+	for (const { musicItem: matchedMusic } of await findMatchedMusic(musicItem)) {
+		if (remembered && isSameMediaItem(matchedMusic, remembered)) {
+			continue
+		}
+		const resolved = await getMatchedMusicItemUrl(matchedMusic, quality)
+		if (resolved) {
+			rememberMatch(musicItem, matchedMusic)
+			return resolved
+		}
+	}
+	return null
+}
+
+/**
+ * 获取播放链接，开启了自动换源时，当前平台获取失败会使用其他平台的同一首歌
+ * @param musicApiChain 获取原歌曲时依次尝试的音源，默认按优先级
+ * @returns 没有可用音源时返回 null
+ */
+async function getMusicUrlWithMatch(
+	musicItem: IMusic.IMusicItem,
+	quality: IMusic.IQualityKey,
+	musicApiChain?: IMusic.MusicApi[],
+): Promise<IMatchedMusicUrl | null> {
+	if (!Config.get('setting.basic.tryChangeSourceWhenPlayFail')) {
+		return getMusicUrl(musicItem, quality, musicApiChain)
+	}
+	// 之前换过源的歌曲直接使用记住的结果，不再等待原平台失败
+	if (getRememberedMatch(musicItem)) {
+		const matched = await getMatchedMusicUrl(musicItem, quality, false)
+		if (matched) {
+			return matched
+		}
+	}
+	try {
+		const resolved = await getMusicUrl(musicItem, quality, musicApiChain)
+		if (resolved) {
+			return resolved
+		}
+	} catch (error) {
+		logWarn('当前平台获取播放链接失败，尝试其他平台:', error)
+		const matched = await getMatchedMusicUrl(musicItem, quality)
+		if (matched) {
+			return matched
+		}
+		throw error
+	}
+	// 没有导入音源时，仍可以使用不需要音源的平台
+	return getMatchedMusicUrl(musicItem, quality)
+}
+
+/** 获取歌词，优先使用缓存 */
+async function getLyric(musicItem: IMusic.IMusicItem) {
+	const cachedLyric = MediaCache.getLyric(musicItem)
+	if (cachedLyric) {
+		return cachedLyric
+	}
+	const lyc = await myGetLyric(musicItem)
+	// 获取失败时返回的是占位歌词，不缓存
+	if (!lyc.lyric.includes('暂无歌词')) {
+		MediaCache.setLyric(musicItem, lyc.lyric)
+		return lyc.lyric as string
+	}
+	// 尝试支持歌词的音源
+	for (const musicApi of getMusicApiChain()) {
+		if (typeof musicApi.getLyric !== 'function') {
+			continue
+		}
+		const lyric = await musicApi.getLyric(musicItem)
+		if (lyric) {
+			MediaCache.setLyric(musicItem, lyric)
+			return lyric
+		}
+	}
+	return lyc.lyric as string
+}
+
+/** 歌曲没有封面时，尝试从支持封面的音源获取 */
+async function fillArtwork(musicItem: IMusic.IMusicItem) {
+	if (musicItem.artwork?.trim()?.length) {
+		return
+	}
+	for (const musicApi of getMusicApiChain()) {
+		if (typeof musicApi.getPic !== 'function') {
+			continue
+		}
+		const artwork = await musicApi.getPic(musicItem)
+		if (!artwork) {
+			continue
+		}
+		// 歌曲已切换时不再更新
+		if (!isSameMediaItem(currentMusicStore.getValue(), musicItem)) {
+			return
+		}
+		await ReactNativeTrackPlayer.updateMetadataForTrack(0, { artwork })
+		return
+	}
+}
+
+/** 预加载下一首的播放链接和歌词 */
+async function prefetchNextMusic() {
+	const currentMusicItem = currentMusicStore.getValue()
+	if (!currentMusicItem || prefetchedMediaKey === getMediaKey(currentMusicItem)) {
+		return
+	}
+	prefetchedMediaKey = getMediaKey(currentMusicItem)
+
+	const nextMusicItem =
+		repeatModeStore.getValue() === MusicRepeatMode.SINGLE
+			? currentMusicItem
+			: getUpNext()[0] ?? getPlayListMusicAt(currentIndex + 1)
+	// 只有需要通过音源获取链接的歌曲才预加载
+	if (
+		!nextMusicItem ||
+		!(nextMusicItem.url == 'Unknown' || nextMusicItem.url.includes('fake')) ||
+		(await isCached(nextMusicItem))
+	) {
+		return
+	}
+	logInfo('预加载下一首:', nextMusicItem.title)
+	try {
+		await Promise.all([
+			getMusicUrlWithMatch(nextMusicItem, qualityStore.getValue()),
+			getLyric(nextMusicItem),
+		])
+	} catch (error) {
+		logError('预加载下一首失败:', error)
+	}
+}
+
+/** 是否正在播放列表的最后一首，且开启了自动续播 */
+function shouldExtendWithRadio() {
+	return (
+		!!Config.get('setting.basic.autoplayRadio') &&
+		repeatModeStore.getValue() === MusicRepeatMode.QUEUE &&
+		!getUpNext().length &&
+		!isPlayListEmpty() &&
+		currentIndex === getPlayList().length - 1
+	)
+}
+
+/** 自动续播：根据播放列表最后一首歌，在末尾添加相似的歌曲 */
+function extendPlayListWithRadio() {
+	const seed = getPlayListMusicAt(currentIndex)
+	if (!seed || radioSeedKey === getMediaKey(seed)) {
+		return radioPromise ?? Promise.resolve()
+	}
+	radioSeedKey = getMediaKey(seed)
+	const recentKeys = new Set(getPlayHistory(50).map((item) => getMediaKey(item.musicItem)))
+	radioPromise = fetchRadioTracks(
+		seed,
+		(musicItem) =>
+			isInPlayList(musicItem) || recentKeys.has(getMediaKey(musicItem)) || isDisliked(musicItem),
+	)
+		.then((musicItems) => {
+			if (!musicItems.length) {
+				logWarn('自动续播: 没有获取到相似歌曲')
+				return
+			}
+			addAll(musicItems)
+			updateFakeNextTrack()
+			logInfo('自动续播: 已添加', musicItems.length, '首相似歌曲')
+		})
+		.catch((error) => {
+			logError('自动续播失败:', error)
+		})
+		.finally(() => {
+			radioPromise = null
+		})
+	return radioPromise
+}
+
+/** 设置提前预加载下一首的秒数，0 为关闭 */
+const setPrefetchSeconds = (seconds: number) => {
+	PersistStatus.set('music.prefetchSeconds', seconds)
+	prefetchSecondsStore.setValue(seconds)
+}
+
 const cacheAndImportMusic = async (track: IMusic.IMusicItem) => {
 	try {
 		await ensureCacheDirExists()
@@ -1072,19 +2105,181 @@ const playWithReplacePlayList = async (
 		)
 		setPlayList(
 			repeatModeStore.getValue() === MusicRepeatMode.SHUFFLE
-				? shuffle(playListItems)
+				? shufflePlayList(playListItems, musicItem)
 				: playListItems,
 		)
 		await play(musicItem, true)
 	}
 }
 
+/** 获取歌曲的播放速度，优先使用单曲记住的速度，其次是音源的，最后是全局的 */
+const getPlaybackRate = (musicItem?: IMusic.IMusicItem | null) => {
+	const trackRate = musicItem ? MediaExtra.get(musicItem)?.rate : undefined
+	if (trackRate) {
+		return { rate: trackRate, scope: 'track' as const }
+	}
+	const platformRate = musicItem
+		? PersistStatus.get('music.platformRates')?.[musicItem.platform]
+		: undefined
+	if (platformRate) {
+		return { rate: platformRate, scope: 'platform' as const }
+	}
+	return { rate: PersistStatus.get('music.rate') || 1, scope: 'global' as const }
+}
+
+/** 切歌时应用歌曲对应的播放速度 */
+const applyPlaybackRate = async (musicItem?: IMusic.IMusicItem | null) => {
+	const playbackRate = getPlaybackRate(musicItem)
+	playbackRateStore.setValue(playbackRate)
+	await ReactNativeTrackPlayer.setRate(playbackRate.rate)
+}
+
+/**
+ * 修改播放速度
+ * @param rate 播放速度 0.5~3
+ * @param scope 保存的范围，默认保存到当前生效的范围
+ */
+const setPlaybackRate = async (
+	rate: number,
+	scope: PlaybackRateScope = playbackRateStore.getValue().scope,
+) => {
+	const musicItem = currentMusicStore.getValue()
+	rate = Math.min(Math.max(rate, minPlaybackRate), maxPlaybackRate)
+	if (scope === 'track' && musicItem) {
+		MediaExtra.update(musicItem, { rate })
+	} else if (scope === 'platform' && musicItem) {
+		PersistStatus.set('music.platformRates', {
+			...PersistStatus.get('music.platformRates'),
+			[musicItem.platform]: rate,
+		})
+	} else {
+		PersistStatus.set('music.rate', rate)
+	}
+	await applyPlaybackRate(musicItem)
+}
+
+/**
+ * 清除当前歌曲单曲或音源记住的播放速度，改为使用上一级的速度
+ * @param scope 要清除的范围
+ */
+const clearPlaybackRate = async (scope: Exclude<PlaybackRateScope, 'global'>) => {
+	const musicItem = currentMusicStore.getValue()
+	if (!musicItem) {
+		return
+	}
+	if (scope === 'track') {
+		MediaExtra.update(musicItem, { rate: undefined })
+	} else {
+		const platformRates = { ...PersistStatus.get('music.platformRates') }
+		delete platformRates[musicItem.platform]
+		PersistStatus.set('music.platformRates', platformRates)
+	}
+	await applyPlaybackRate(musicItem)
+}
+
+/** 获取歌曲设置的开始和结束位置(s) */
+const getTrackTrim = (musicItem: IMusic.IMusicItem) => {
+	const meta = MediaExtra.get(musicItem)
+	return { start: meta?.startTime ?? 0, end: meta?.endTime }
+}
+
+/**
+ * 设置歌曲的开始和结束位置，下次播放时生效，当前歌曲立即生效
+ * @param musicItem 歌曲
+ * @param trim 开始和结束位置(s)，为空时清除
+ */
+const setTrackTrim = (musicItem: IMusic.IMusicItem, trim: { start?: number; end?: number }) => {
+	MediaExtra.update(musicItem, {
+		startTime: trim.start || undefined,
+		endTime: trim.end || undefined,
+	})
+	if (isCurrentMusic(musicItem)) {
+		currentTrackTrim = getTrackTrim(musicItem)
+	}
+}
+
+/**
+ * 设置 A-B 循环，播放到 B 点时回到 A 点
+ * @param loop 循环区间(s)，为空时取消
+ */
+const setABLoop = (loop: { start: number; end?: number } | null) => {
+	abLoopStore.setValue(loop)
+	abLoopTimerId && clearInterval(abLoopTimerId)
+	abLoopTimerId = null
+	if (loop?.end !== undefined) {
+		const { start, end } = loop
+		abLoopTimerId = setInterval(async () => {
+			const { position } = await ReactNativeTrackPlayer.getProgress()
+			if (position >= end) {
+				await ReactNativeTrackPlayer.seekTo(start)
+			}
+		}, abLoopCheckInterval)
+	}
+}
+
+/** 依次设置 A 点、B 点，已设置完时取消 A-B 循环 */
+const toggleABLoop = async () => {
+	const loop = abLoopStore.getValue()
+	const { position } = await ReactNativeTrackPlayer.getProgress()
+	if (!loop) {
+		setABLoop({ start: position })
+	} else if (loop.end === undefined) {
+		// B 点在 A 点之前时交换
+		setABLoop(
+			position > loop.start
+				? { start: loop.start, end: position }
+				: { start: position, end: loop.start },
+		)
+		await ReactNativeTrackPlayer.seekTo(Math.min(loop.start, position))
+	} else {
+		setABLoop(null)
+	}
+}
+
+/** 设置歌曲自然播放结束时的拦截，传 null 取消 */
+const setTrackEndInterceptor = (interceptor: (() => boolean) | null) => {
+	trackEndInterceptor = interceptor
+}
+
 const skipToNext = async () => {
+	// 优先播放"接下来播放"队列
+	const upNextItem = shiftUpNext()
+	if (upNextItem) {
+		pendingUpNextItem = upNextItem
+		await play(upNextItem, true)
+		return
+	}
+
 	if (isPlayListEmpty()) {
 		setCurrentMusic(null)
 		return
 	}
 
+	// 播放列表结束时，先尝试添加相似歌曲
+	if (shouldExtendWithRadio()) {
+		await extendPlayListWithRadio()
+	}
+
+	const playList = getPlayList()
+	if (
+		repeatModeStore.getValue() === MusicRepeatMode.SHUFFLE &&
+		playList.length > 2 &&
+		currentIndex === playList.length - 1
+	) {
+		// 一轮播放完，重新随机，刚播放过的放到最后
+		const recentKeys = new Set(
+			playList.slice(-Math.min(10, Math.floor(playList.length / 3))).map(getMediaKey),
+		)
+		const newPlayList = smartShuffle(playList, {
+			getWeight: getShuffleWeight(),
+			getArtist: (item) => item.artist,
+			isRecent: (item) => recentKeys.has(getMediaKey(item)),
+		})
+		setPlayList(newPlayList)
+		await play(newPlayList[0], true)
+		return
+	}
+
 	// TrackPlayer.load(getPlayListMusicAt(currentIndex + 1) as Track)
 	await play(getPlayListMusicAt(currentIndex + 1), true)
 }
@@ -1095,26 +2290,68 @@ const skipToPrevious = async () => {
 		return
 	}
 
-	await play(getPlayListMusicAt(currentIndex === -1 ? 0 : currentIndex - 1), true)
+	// 播放"接下来播放"队列时，上一首是播放列表中的当前歌曲
+	await play(
+		getPlayListMusicAt(currentIndex === -1 ? 0 : isPlayingUpNext ? currentIndex : currentIndex - 1),
+		true,
+	)
 }
 
-/** 修改当前播放的音质 */
+/**
+ * 修改音质，并按新音质重新获取当前歌曲，从当前进度继续播放
+ * @returns 当前歌曲是否已切换到新音质，不需要切换时也返回 true
+ */
 const changeQuality = async (newQuality: IMusic.IQualityKey) => {
-	// 获取当前的音乐和进度
 	if (newQuality === qualityStore.getValue()) {
 		return true
 	}
+	setQuality(newQuality)
 
 	// 获取当前歌曲
 	const musicItem = currentMusicStore.getValue()
-	if (!musicItem) {
-		return false
+	// 没有在播放，或者是本地/缓存的歌曲，只需要修改设置
+	if (
+		!musicItem ||
+		!(musicItem.url == 'Unknown' || musicItem.url.includes('fake')) ||
+		(await isCached(musicItem))
+	) {
+		return true
 	}
+
+	// 获取当前的进度和播放状态
+	const { position } = await ReactNativeTrackPlayer.getProgress()
+	const { state } = await ReactNativeTrackPlayer.getPlaybackState()
 	try {
-		setQuality(newQuality)
+		const resolved = await getMusicUrl(musicItem, newQuality)
+		if (!resolved) {
+			showToast('错误', '切换音质失败，请先导入音源。', 'error')
+			return false
+		}
+		if (resolved.quality !== newQuality) {
+			// 音源不支持该音质，继续播放原来的链接
+			logInfo(`切换音质: ${musicItem.title} 没有${newQuality}音质，保持当前播放`)
+			showToast('提示', `当前歌曲暂无${newQuality}音质，将在之后的歌曲中使用`, 'info')
+			return false
+		}
+		if (!isCurrentMusic(musicItem)) {
+			// 获取期间已经切歌
+			return true
+		}
+		const track = mergeProps(musicItem, {
+			url: resolved.url,
+			musicApiId: resolved.musicApiId,
+			musicApiName: resolved.musicApiName,
+		}) as IMusic.IMusicItem
+		await setTrackSource(track as Track, state === State.Playing)
+		if (position > 0) {
+			await ReactNativeTrackPlayer.seekTo(position)
+		}
+		logInfo(`切换音质: ${musicItem.title} 已切换至${newQuality}，音源 ${resolved.musicApiName}`)
+		showToast('提示', `已切换至${newQuality}音质`, 'success')
 		return true
-	} catch {
-		// 修改失败
+	} catch (error) {
+		logError('切换音质失败:', error)
+		showToast('提示', `切换至${newQuality}音质失败，继续播放当前音质`, 'error')
 		return false
 	}
 }
@@ -1150,7 +2387,7 @@ function getNextMusic() {
 		return null
 	}
 
-	return getPlayListMusicAt(currentIndex + 1)
+	return getUpNext()[0] ?? getPlayListMusicAt(currentIndex + 1)
 }
 const addImportedLocalMusic = async (musicItem: IMusic.IMusicItem[], isAlert: boolean = true) => {
 	try {
@@ -1334,6 +2571,14 @@ const myTrackPlayer = {
 	addAll,
 	add,
 	addAsNextTrack,
+	addToQueue,
+	playUpNext,
+	setUpNext: setUpNextList,
+	move,
+	moveUpNext,
+	undoQueueChange,
+	useQueueUndoCount: queueUndoCountStore.useValue,
+	saveQueueAsPlayList,
 	skipToNext,
 	skipToPrevious,
 	play,
@@ -1358,8 +2603,12 @@ const myTrackPlayer = {
 	deletePlayLists,
 	getPlayListById,
 	addMusicApi,
+	importMusicApi,
 	setMusicApiAsSelectedById,
 	deleteMusicApiById,
+	refreshMusicApi,
+	setMusicApiOrder,
+	useMusicApiOrder: musicApiOrderStore.useValue,
 	addSongToStoredPlayList,
 	deleteSongFromStoredPlayList,
 	addImportedLocalMusic,
@@ -1369,6 +2618,9 @@ const myTrackPlayer = {
 	getCurrentQuality: qualityStore.getValue,
 	getRate: ReactNativeTrackPlayer.getRate,
 	setRate: ReactNativeTrackPlayer.setRate,
+	setPlaybackRate,
+	clearPlaybackRate,
+	usePlaybackRate: playbackRateStore.useValue,
 	useMusicState,
 	reset: ReactNativeTrackPlayer.reset,
 	getPreviousMusic,
@@ -1379,6 +2631,19 @@ const myTrackPlayer = {
 	isCached,
 	toggleIsCachedIconVisible,
 	reloadMusicApi,
+	setPrefetchSeconds,
+	setShuffleWeight,
+	playWithShuffle,
+	setTrackEndInterceptor,
+	getTrackTrim,
+	setTrackTrim,
+	setABLoop,
+	toggleABLoop,
+	useABLoop: abLoopStore.useValue,
+	getPlayHistory,
+	usePlayHistory,
+	removePlayHistory,
+	clearPlayHistory,
 }
 
 export default myTrackPlayer
@@ -33,4 +33,10 @@ export enum MusicRepeatMode {
 	SINGLE = 'SINGLE',
 }
 
+/** 随机播放的权重 */
+export type ShuffleWeight = 'none' | 'favorite' | 'playCount'
+
+/** 播放速度保存的范围：全局、单曲、音源(平台) */
+export type PlaybackRateScope = 'global' | 'track' | 'platform'
+
 export type TrackWithPlaylist = Track & { playlist?: string[]; platform?: string }
@@ -282,6 +282,35 @@ export async function getKwId(songInfo) {
 		logError('请求出错:', error)
 	}
 }
+/**
+ * 在酷我搜索歌曲，用于跨平台匹配
+ * @param keyword 关键词，一般为"歌名 歌手"
+ * @returns 失败时返回空数组
+ */
+export async function searchMusicFromKw(keyword: string): Promise<IMusic.IMusicItem[]> {
+	const searchUrl = `https://search.kuwo.cn/r.s?client=kt&all=${encodeURIComponent(keyword)}&pn=0&rn=10&uid=794762570&ver=kwplayer_ar_9.2.2.1&vipver=1&show_copyright_off=1&newver=1&ft=music&cluster=0&strategy=2012&encoding=utf8&rformat=json&vermerge=1&mobi=1&issubtitle=1`
+	try {
+		const response = await fetch(searchUrl)
+		if (!response.ok) {
+			throw new Error('Network response was not ok')
+		}
+		const data = await response.json()
+		return (data.abslist ?? [])
+			.filter((item: any) => item.DC_TARGETID)
+			.map((item: any) => ({
+				id: `${item.DC_TARGETID}`,
+				platform: 'kw',
+				title: decodeName(item.SONGNAME ?? item.NAME),
+				artist: decodeName(item.ARTIST).replace(/&/g, '、'),
+				album: decodeName(item.ALBUM),
+				duration: Number(item.DURATION) || 0,
+				url: 'Unknown',
+			}))
+	} catch (error) {
+		logError('酷我搜索出错:', error)
+		return []
+	}
+}
 export async function getUrlFromKw(kwId: string, quality: string) {
 	// Construct the source URL using the provided kwId and quality
 	switch (quality) {
@@ -672,7 +701,8 @@ export const getAlbumSongList = async (albummid, origin = false) => {
 	}
 }
 
-function similarity(s1, s2) {
+/** 字符串相似度 0~1，基于编辑距离，忽略大小写 */
+export function similarity(s1, s2) {
 	let longer = s1
 	let shorter = s2
 	if (s1.length < s2.length) {
@@ -1,4 +1,3 @@
-import { getData } from 'ajv/lib/compile/validate'
 import { saveDataMultiple } from '@/helpers/storage'
 import { storageDataPrefix } from '@/constants/constant'
 
@@ -38,7 +37,7 @@ export const addUserApi = async(script: string): Promise<LX.UserApi.UserApiInfo>
   return apiInfo;
 };
 
-const matchInfo = (scriptInfo: string) => {
+export const matchInfo = (scriptInfo: string) => {
   const infoArr = scriptInfo.split(/\r?\n/)
   const rxp = /^\s?\*\s?@(\w+)\s(.+)$/
   const infos: Partial<Record<keyof typeof INFO_NAMES, string>> = {}
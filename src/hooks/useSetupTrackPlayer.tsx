@@ -1,3 +1,4 @@
+import { checkMusicApiUpdatesOnLaunch } from '@/helpers/sourceUpdater'
 import myTrackPlayer from '@/helpers/trackPlayerIndex'
 import { useEffect, useRef } from 'react'
 import TrackPlayer, { Capability, RatingType, RepeatMode } from 'react-native-track-player'
@@ -35,6 +36,8 @@ export const useSetupTrackPlayer = ({ onLoad }: { onLoad?: () => void }) => {
 				await myTrackPlayer.setupTrackPlayer()
 				isInitialized.current = true
 				onLoad?.()
+				// 后台检查音源更新，不阻塞启动
+				checkMusicApiUpdatesOnLaunch()
 			})
 			.catch((error) => {
 				isInitialized.current = false
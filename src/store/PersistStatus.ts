@@ -1,3 +1,6 @@
+import type { IScrobble, IScrobblerConfig } from '@/helpers/scrobbler'
+import type { ISourceCatalogSubscription } from '@/helpers/sourceCatalog'
+import type { ShuffleWeight } from '@/helpers/types'
 import getOrCreateMMKV from '@/store/getOrCreateMMKV'
 import safeParse from '@/utils/safeParse'
 import { useEffect, useState } from 'react'
@@ -12,8 +15,14 @@ interface IPersistConfig {
 	'music.repeatMode': string
 	//播放列表
 	'music.play-list': IMusic.IMusicItem[]
+	//"接下来播放"队列
+	'music.upNext': IMusic.IMusicItem[]
 	'music.favorites': IMusic.IMusicItem[]
 	'music.rate': number
+	//各音源(平台)记住的播放速度
+	'music.platformRates': Record<string, number>
+	//不喜欢的歌曲/歌手规则
+	'music.dislikeRules': string
 	'music.quality': IMusic.IQualityKey
 	'app.skipVersion': string
 	'app.pluginUpdateTime': number
@@ -26,12 +35,34 @@ interface IPersistConfig {
 	'music.musicApi': IMusic.MusicApi[]
 	//当前选择的音源
 	'music.selectedMusicApi': IMusic.MusicApi
+	//音源优先级
+	'music.musicApiOrder': string[]
+	//用于验证音源签名的公钥
+	'music.trustedSourceKeys': { name: string; key: string }[]
+	//旧版本保存的音源用户变量加密密钥，已迁移到钥匙串
+	'app.userVariablesKey': string
+	//音源更新前的版本，用于回滚
+	'music.musicApiBackups': Record<string, IMusic.MusicApi>
+	//订阅的音源目录
+	'music.sourceCatalogs': ISourceCatalogSubscription[]
 	//已导入的本地音乐
 	'music.importedLocalMusic': IMusic.IMusicItem[]
 	'music.autoCacheLocal': boolean
 	'app.language': string
 	'music.isCachedIconVisible': boolean
 	'music.songsNumsToLoad': number
+	//提前多少秒预加载下一首，0 为关闭
+	'music.prefetchSeconds': number
+	//播放记录
+	'music.playHistory': IMusic.IPlayHistoryItem[]
+	//随机播放前的列表顺序(getMediaKey)，退出随机播放时恢复
+	'music.playListOrder': string[]
+	'music.shuffleWeight': ShuffleWeight
+	//定时关闭前音量淡出的时长(s)，0 为不淡出
+	'music.timingCloseFadeSeconds': number
+	//听歌记录上报
+	'scrobble.config': IScrobblerConfig
+	'scrobble.queue': IScrobble[]
 }
 
 function set<K extends keyof IPersistConfig>(key: K, value: IPersistConfig[K] | undefined) {
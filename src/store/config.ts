@@ -9,6 +9,8 @@ interface IConfig {
     setting: {
         basic: {
             autoPlayWhenAppStart: boolean;
+            /** 播放列表快结束时自动添加相似歌曲 */
+            autoplayRadio: boolean;
             /** 使用移动网络播放 */
             useCelluarNetworkPlay: boolean;
             /** 使用移动网络下载 */
@@ -62,6 +64,8 @@ interface IConfig {
             musicOrderInLocalSheet: 'start' | 'end';
             // 自动换源
             tryChangeSourceWhenPlayFail: boolean;
+            /** 根据成功率和耗时自动选择音源 */
+            autoSelectHealthiestSource: boolean;
         };
         /** 歌词 */
         lyric: {
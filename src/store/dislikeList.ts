@@ -0,0 +1,113 @@
+import PersistStatus from '@/store/PersistStatus'
+import { GlobalState } from '@/utils/stateMapper'
+
+/**
+ * 不喜欢的歌曲/歌手，规则与洛雪音乐相同，每行一条：
+ * - `歌名@歌手`：指定歌手的指定歌曲
+ * - `歌名`：所有歌手的同名歌曲
+ * - `@歌手`：该歌手的所有歌曲
+ */
+
+/** 歌名和歌手的分隔符 */
+const splitChar = '@'
+
+const normalize = (text?: string | null) => (text ?? '').trim().toLocaleLowerCase()
+
+const createDislikeInfo = (rules: LX.Dislike.DislikeRules): LX.Dislike.DislikeInfo => {
+	const dislikeInfo: LX.Dislike.DislikeInfo = {
+		names: new Set(),
+		musicNames: new Set(),
+		singerNames: new Set(),
+		rules: '',
+	}
+	const lines: string[] = []
+	for (const line of rules.split('\n')) {
+		const index = line.lastIndexOf(splitChar)
+		const name = normalize(index === -1 ? line : line.slice(0, index))
+		const singer = index === -1 ? '' : normalize(line.slice(index + 1))
+		if (name && singer) {
+			dislikeInfo.names.add(`${name}${splitChar}${singer}`)
+		} else if (name) {
+			dislikeInfo.musicNames.add(name)
+		} else if (singer) {
+			dislikeInfo.singerNames.add(singer)
+		} else {
+			continue
+		}
+		lines.push(line.trim())
+	}
+	// 去掉空行和重复的规则
+	dislikeInfo.rules = [...new Set(lines)].join('\n')
+	return dislikeInfo
+}
+
+/** 多个歌手时拆分开，任意一个被屏蔽都算 */
+const splitSingers = (singer: string) =>
+	singer
+		.split(/[、,，/&]/)
+		.map(normalize)
+		.filter(Boolean)
+
+const dislikeInfoStore = new GlobalState<LX.Dislike.DislikeInfo>(createDislikeInfo(''))
+
+/** 从本地恢复不喜欢的规则 */
+export function setupDislikeList() {
+	dislikeInfoStore.setValue(createDislikeInfo(PersistStatus.get('music.dislikeRules') ?? ''))
+}
+
+/** 获取规则文本 */
+export const getDislikeRules = () => dislikeInfoStore.getValue().rules
+
+/** 规则文本 hook */
+export const useDislikeRules = () => dislikeInfoStore.useValue().rules
+
+/**
+ * 设置规则
+ * @param rules 规则文本，每行一条
+ */
+export function setDislikeRules(rules: LX.Dislike.DislikeRules) {
+	const dislikeInfo = createDislikeInfo(rules)
+	dislikeInfoStore.setValue(dislikeInfo)
+	PersistStatus.set('music.dislikeRules', dislikeInfo.rules)
+}
+
+/**
+ * 添加规则，歌名为空时屏蔽歌手，歌手为空时屏蔽同名歌曲
+ * @param infos 歌名和歌手
+ */
+export function addDislikeRules(infos: LX.Dislike.DislikeMusicInfo[]) {
+	const newRules = infos.map(({ name, singer }) => {
+		// 歌名中的分隔符会被当作歌手，替换掉
+		const _name = (name ?? '').trim().replaceAll(splitChar, ' ')
+		return singer?.trim() ? `${_name}${splitChar}${singer.trim()}` : _name
+	})
+	setDislikeRules([getDislikeRules(), ...newRules].join('\n'))
+}
+
+/**
+ * 是否为不喜欢的歌曲
+ * @param musicItem 歌曲
+ */
+export function isDisliked(musicItem: { title?: string; artist?: string }) {
+	const { names, musicNames, singerNames } = dislikeInfoStore.getValue()
+	if (!names.size && !musicNames.size && !singerNames.size) {
+		return false
+	}
+	const name = normalize(musicItem.title)
+	if (musicNames.has(name)) {
+		return true
+	}
+	const singers = splitSingers(musicItem.artist ?? '')
+	return (
+		names.has(`${name}${splitChar}${normalize(musicItem.artist)}`) ||
+		singers.some((singer) => singerNames.has(singer) || names.has(`${name}${splitChar}${singer}`))
+	)
+}
+
+/**
+ * 过滤掉不喜欢的歌曲
+ * @param musicItems 歌曲
+ */
+export function filterDisliked<T extends { title?: string; artist?: string }>(musicItems: T[]) {
+	return musicItems.filter((item) => !isDisliked(item))
+}
@@ -4,10 +4,8 @@ import pathConst from '@/store/pathConst'
 
 const _mmkvCache: Record<string, MMKV> = {};
 
-global.mmkv = _mmkvCache;
-
 // Internal Method
-const getOrCreateMMKV = (dbName: string, cachePath = false) => {
+const getOrCreateMMKV = (dbName: string, cachePath = false, encryptionKey?: string) => {
     if (_mmkvCache[dbName]) {
         return _mmkvCache[dbName];
     }
@@ -15,6 +13,7 @@ const getOrCreateMMKV = (dbName: string, cachePath = false) => {
     const newStore = new MMKV({
         id: dbName,
         path: cachePath ? pathConst.mmkvCachePath : pathConst.mmkvPath,
+        encryptionKey,
     });
 
     _mmkvCache[dbName] = newStore;
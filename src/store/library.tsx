@@ -6,6 +6,7 @@ import { create } from 'zustand'
 
 import { getTopLists } from '@/helpers/userApi/getMusicSource'
 import PersistStatus from '@/store/PersistStatus'
+import { filterDisliked } from '@/store/dislikeList'
 
 interface LibraryState {
 	allTracks: TrackWithPlaylist[]
@@ -114,12 +115,14 @@ export const useLibraryStore = create<LibraryState>((set, get) => ({
 			const currentPage = refresh ? 1 : page
 			const start = (currentPage - 1) * PAGE_SIZE
 			const end = start + PAGE_SIZE
-			const newTracks = get().allTracks.slice(start, end)
+			// 过滤掉不喜欢的歌曲
+			const allowedTracks = filterDisliked(get().allTracks)
+			const newTracks = allowedTracks.slice(start, end)
 
 			set((state) => ({
 				tracks: refresh ? newTracks : [...state.tracks, ...newTracks],
 				page: currentPage + 1,
-				hasMore: end < get().allTracks.length,
+				hasMore: end < allowedTracks.length,
 				isLoading: false,
 			}))
 		} catch (error) {
@@ -0,0 +1,219 @@
+import getOrCreateMMKV from '@/store/getOrCreateMMKV'
+import { getMediaKey } from '@/utils/mediaItem'
+import safeParse from '@/utils/safeParse'
+import { GlobalState } from '@/utils/stateMapper'
+
+/** 统计的时间范围 */
+export type ListeningStatsRange = 'week' | 'month' | 'year' | 'all'
+
+/** 单曲在某一天的收听统计 */
+export interface IListeningStatsTrack {
+	id: string
+	platform: string
+	title: string
+	artist: string
+	album: string
+	playCount: number
+	skipCount: number
+	/** 收听时长(s) */
+	listenedDuration: number
+}
+
+/** 歌手/专辑的收听统计 */
+export interface IListeningStatsGroup {
+	name: string
+	playCount: number
+	listenedDuration: number
+}
+
+export interface IListeningStatsSummary {
+	playCount: number
+	skipCount: number
+	/** 跳过率 0~1 */
+	skipRate: number
+	listenedDuration: number
+	topTracks: IListeningStatsTrack[]
+	topArtists: IListeningStatsGroup[]
+	topAlbums: IListeningStatsGroup[]
+}
+
+/** 每天一条记录，key 为 YYYY-MM-DD */
+type DayBucket = Record<string, IListeningStatsTrack>
+
+const rangeDays: Record<ListeningStatsRange, number> = {
+	week: 7,
+	month: 30,
+	year: 365,
+	all: Infinity,
+}
+/** 排行榜条数 */
+const topLimit = 10
+
+const getStatsStore = () => getOrCreateMMKV('ListeningStats')
+
+/** 数据变化时自增，用于刷新界面 */
+const statsVersion = new GlobalState<number>(0)
+
+const padZero = (num: number) => (num < 10 ? `0${num}` : `${num}`)
+
+/** 按本地时间获取日期 */
+const getDayKey = (timestamp: number) => {
+	const date = new Date(timestamp)
+	return `${date.getFullYear()}-${padZero(date.getMonth() + 1)}-${padZero(date.getDate())}`
+}
+
+const getDayBucket = (dayKey: string): DayBucket => {
+	const raw = getStatsStore().getString(dayKey)
+	return (raw && safeParse<DayBucket>(raw)) || {}
+}
+
+/** 获取范围内的日期，从早到晚 */
+const getDayKeys = (range: ListeningStatsRange) => {
+	const dayKeys = getStatsStore().getAllKeys().sort()
+	if (range === 'all') {
+		return dayKeys
+	}
+	const startDayKey = getDayKey(Date.now() - (rangeDays[range] - 1) * 24 * 60 * 60 * 1000)
+	return dayKeys.filter((dayKey) => dayKey >= startDayKey)
+}
+
+/**
+ * 记录一次收听
+ * @param historyItem 播放记录
+ */
+export function recordListening(historyItem: IMusic.IPlayHistoryItem) {
+	const { musicItem } = historyItem
+	const dayKey = getDayKey(historyItem.playedAt)
+	const bucket = getDayBucket(dayKey)
+	const mediaKey = getMediaKey(musicItem)
+	const trackStats = bucket[mediaKey] ?? {
+		id: musicItem.id,
+		platform: musicItem.platform,
+		title: musicItem.title,
+		artist: musicItem.artist,
+		album: musicItem.album,
+		playCount: 0,
+		skipCount: 0,
+		listenedDuration: 0,
+	}
+	trackStats.playCount += 1
+	trackStats.skipCount += historyItem.skipped ? 1 : 0
+	trackStats.listenedDuration += historyItem.listenedDuration
+	bucket[mediaKey] = trackStats
+	getStatsStore().set(dayKey, JSON.stringify(bucket))
+	statsVersion.setValue((version) => version + 1)
+}
+
+const groupBy = (
+	tracks: IListeningStatsTrack[],
+	getName: (track: IListeningStatsTrack) => string,
+) => {
+	const groups = new Map<string, IListeningStatsGroup>()
+	for (const track of tracks) {
+		const name = getName(track)
+		if (!name) {
+			continue
+		}
+		const group = groups.get(name) ?? { name, playCount: 0, listenedDuration: 0 }
+		group.playCount += track.playCount
+		group.listenedDuration += track.listenedDuration
+		groups.set(name, group)
+	}
+	return [...groups.values()]
+}
+
+const byPlayCount = <T extends { playCount: number; listenedDuration: number }>(a: T, b: T) =>
+	b.playCount - a.playCount || b.listenedDuration - a.listenedDuration
+
+/**
+ * 获取时间范围内的统计
+ * @param range 时间范围
+ */
+export function getListeningStats(range: ListeningStatsRange): IListeningStatsSummary {
+	// 合并同一首歌在不同日期的记录
+	const tracks = new Map<string, IListeningStatsTrack>()
+	for (const dayKey of getDayKeys(range)) {
+		for (const [mediaKey, trackStats] of Object.entries(getDayBucket(dayKey))) {
+			const merged = tracks.get(mediaKey)
+			if (merged) {
+				merged.playCount += trackStats.playCount
+				merged.skipCount += trackStats.skipCount
+				merged.listenedDuration += trackStats.listenedDuration
+			} else {
+				tracks.set(mediaKey, { ...trackStats })
+			}
+		}
+	}
+
+	const allTracks = [...tracks.values()]
+	const playCount = allTracks.reduce((sum, track) => sum + track.playCount, 0)
+	const skipCount = allTracks.reduce((sum, track) => sum + track.skipCount, 0)
+	return {
+		playCount,
+		skipCount,
+		skipRate: playCount ? skipCount / playCount : 0,
+		listenedDuration: allTracks.reduce((sum, track) => sum + track.listenedDuration, 0),
+		topTracks: allTracks.sort(byPlayCount).slice(0, topLimit),
+		topArtists: groupBy(allTracks, (track) => track.artist)
+			.sort(byPlayCount)
+			.slice(0, topLimit),
+		topAlbums: groupBy(allTracks, (track) => track.album)
+			.sort(byPlayCount)
+			.slice(0, topLimit),
+	}
+}
+
+/** 获取每首歌的总播放次数，key 为 getMediaKey() */
+export function getTrackPlayCounts() {
+	const playCounts = new Map<string, number>()
+	for (const dayKey of getDayKeys('all')) {
+		for (const [mediaKey, trackStats] of Object.entries(getDayBucket(dayKey))) {
+			playCounts.set(mediaKey, (playCounts.get(mediaKey) ?? 0) + trackStats.playCount)
+		}
+	}
+	return playCounts
+}
+
+/** CSV 字段需要转义引号、逗号和换行 */
+const escapeCsv = (value: string | number) => {
+	const text = `${value ?? ''}`
+	return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * 导出时间范围内每天每首歌的统计
+ * @param range 时间范围
+ * @param format 导出格式
+ */
+export function exportListeningStats(range: ListeningStatsRange, format: 'csv' | 'json') {
+	const rows = getDayKeys(range).flatMap((dayKey) =>
+		Object.values(getDayBucket(dayKey)).map((trackStats) => ({ date: dayKey, ...trackStats })),
+	)
+	if (format === 'json') {
+		return JSON.stringify({ range, summary: getListeningStats(range), rows }, null, 2)
+	}
+	const columns = [
+		'date',
+		'platform',
+		'id',
+		'title',
+		'artist',
+		'album',
+		'playCount',
+		'skipCount',
+		'listenedDuration',
+	] as const
+	return [
+		columns.join(','),
+		...rows.map((row) => columns.map((column) => escapeCsv(row[column])).join(',')),
+	].join('\n')
+}
+
+/** 清空所有统计 */
+export function clearListeningStats() {
+	getStatsStore().clearAll()
+	statsVersion.setValue((version) => version + 1)
+}
+
+/** 统计数据变化时返回新的版本号 */
+export const useListeningStatsVersion = statsVersion.useValue
@@ -0,0 +1,164 @@
+import { GlobalState } from '@/utils/stateMapper'
+
+/** 一次 HTTP 请求的记录 */
+export interface INetworkLogEntry {
+	id: number
+	/** 发起请求的音源名称 */
+	source: string
+	method: string
+	url: string
+	requestHeaders: Record<string, string>
+	requestBody?: string
+	/** 开始时间戳 */
+	time: number
+	/** 响应状态码，请求未完成或失败时为空 */
+	status?: number
+	/** 耗时(ms)，请求未完成时为空 */
+	duration?: number
+	/** 响应内容，超出长度的部分被截断 */
+	responseBody?: string
+	error?: string
+}
+
+export interface INetworkRequest {
+	method?: string
+	url: string
+	headers?: any
+	body?: any
+}
+
+export interface INetworkResult {
+	status?: number
+	responseBody?: any
+	error?: any
+}
+
+/** 内置请求(非音源脚本发起)的来源名称 */
+export const builtinSource = '内置'
+
+/** 最多保留的记录条数 */
+const maxEntries = 200
+/** 请求和响应内容保留的长度 */
+const maxBodyLength = 2000
+
+let nextId = 1
+
+/** 最近的请求记录，从早到晚，只保存在内存中 */
+const networkLogs = new GlobalState<INetworkLogEntry[]>([])
+
+const truncate = (text: string) =>
+	text.length > maxBodyLength ? `${text.slice(0, maxBodyLength)}…(共 ${text.length} 字符)` : text
+
+/** 把请求或响应内容转为文本 */
+const stringifyBody = (body: any): string | undefined => {
+	if (body === undefined || body === null || body === '') {
+		return undefined
+	}
+	if (typeof body === 'string') {
+		return truncate(body)
+	}
+	if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+		return `[二进制 ${body.byteLength} 字节]`
+	}
+	try {
+		return truncate(JSON.stringify(body))
+	} catch {
+		return truncate(String(body))
+	}
+}
+
+/** 统一 Headers 对象、数组和普通对象形式的请求头 */
+const normalizeHeaders = (headers: any): Record<string, string> => {
+	const result: Record<string, string> = {}
+	if (!headers) {
+		return result
+	}
+	if (typeof headers.forEach === 'function' && !Array.isArray(headers)) {
+		headers.forEach((value: string, key: string) => {
+			result[key] = value
+		})
+		return result
+	}
+	const entries: [string, any][] = Array.isArray(headers) ? headers : Object.entries(headers)
+	for (const [key, value] of entries) {
+		result[key] = String(value)
+	}
+	return result
+}
+
+const updateEntry = (id: number, update: (entry: INetworkLogEntry) => INetworkLogEntry) => {
+	networkLogs.setValue((entries) =>
+		entries.map((entry) => (entry.id === id ? update(entry) : entry)),
+	)
+}
+
+/**
+ * 记录一次请求的开始
+ * @param source 音源名称
+ * @param request 请求
+ * @returns 请求结束时调用，记录状态码、耗时和响应内容，只有第一次调用生效
+ */
+export function recordNetworkRequest(source: string, request: INetworkRequest) {
+	const id = nextId++
+	const time = Date.now()
+	const entry: INetworkLogEntry = {
+		id,
+		source,
+		method: (request.method || 'GET').toUpperCase(),
+		url: request.url,
+		requestHeaders: normalizeHeaders(request.headers),
+		requestBody: stringifyBody(request.body),
+		time,
+	}
+	networkLogs.setValue((entries) => [...entries, entry].slice(-maxEntries))
+
+	let finished = false
+	return (result: INetworkResult) => {
+		if (finished) {
+			return
+		}
+		finished = true
+		updateEntry(id, (item) => ({
+			...item,
+			status: result.status,
+			duration: Date.now() - time,
+			responseBody: stringifyBody(result.responseBody),
+			error:
+				result.error === undefined
+					? undefined
+					: result.error instanceof Error
+						? result.error.message
+						: String(result.error),
+		}))
+	}
+}
+
+/** 单引号包裹，用于 shell 命令 */
+const shellQuote = (text: string) => `'${text.replace(/'/g, `'\\''`)}'`
+
+/**
+ * 把请求转换为 curl 命令，请求内容被截断时命令也不完整
+ * @param entry 请求记录
+ */
+export function toCurl(entry: INetworkLogEntry) {
+	const parts = ['curl']
+	if (entry.method !== 'GET') {
+		parts.push('-X', entry.method)
+	}
+	parts.push(shellQuote(entry.url))
+	for (const [key, value] of Object.entries(entry.requestHeaders)) {
+		parts.push('-H', shellQuote(`${key}: ${value}`))
+	}
+	if (entry.requestBody) {
+		parts.push('--data-raw', shellQuote(entry.requestBody))
+	}
+	return parts.join(' ')
+}
+
+/** 清空所有记录 */
+export function clearNetworkLogs() {
+	networkLogs.setValue([])
+}
+
+/** 请求记录变化时返回新的列表 */
+export const useNetworkLogs = networkLogs.useValue
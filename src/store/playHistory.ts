@@ -0,0 +1,59 @@
+import PersistStatus from '@/store/PersistStatus'
+import Config from '@/store/config'
+import { GlobalState } from '@/utils/stateMapper'
+
+/** 默认最多保存的播放记录条数 */
+const defaultMaxHistoryLen = 500
+
+/** 播放记录，最近的在最前 */
+const playHistoryStore = new GlobalState<IMusic.IPlayHistoryItem[]>([])
+
+const getMaxHistoryLen = () => {
+	const maxHistoryLen = Number(Config.get('setting.basic.maxHistoryLen'))
+	return maxHistoryLen > 0 ? maxHistoryLen : defaultMaxHistoryLen
+}
+
+const savePlayHistory = (playHistory: IMusic.IPlayHistoryItem[]) => {
+	playHistoryStore.setValue(playHistory)
+	PersistStatus.set('music.playHistory', playHistory)
+}
+
+/** 从本地恢复播放记录 */
+export function setupPlayHistory() {
+	const playHistory = PersistStatus.get('music.playHistory')
+	if (Array.isArray(playHistory)) {
+		playHistoryStore.setValue(playHistory.slice(0, getMaxHistoryLen()))
+	}
+}
+
+/**
+ * 添加一条播放记录，超出最大条数时丢弃最早的记录
+ * @param historyItem 播放记录
+ */
+export function addPlayHistory(historyItem: IMusic.IPlayHistoryItem) {
+	savePlayHistory([historyItem, ...playHistoryStore.getValue()].slice(0, getMaxHistoryLen()))
+}
+
+/**
+ * 删除某首歌曲的所有播放记录
+ * @param musicId 歌曲 id
+ */
+export function removePlayHistory(musicId: string) {
+	savePlayHistory(playHistoryStore.getValue().filter((item) => item.musicItem.id !== musicId))
+}
+
+/** 清空播放记录 */
+export function clearPlayHistory() {
+	savePlayHistory([])
+}
+
+/**
+ * 获取最近的播放记录
+ * @param limit 最多返回的条数，为空时返回全部
+ */
+export function getPlayHistory(limit?: number) {
+	const playHistory = playHistoryStore.getValue()
+	return limit === undefined ? playHistory : playHistory.slice(0, limit)
+}
+
+export const usePlayHistory = playHistoryStore.useValue
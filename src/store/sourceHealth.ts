@@ -0,0 +1,124 @@
+import getOrCreateMMKV from '@/store/getOrCreateMMKV'
+import safeParse from '@/utils/safeParse'
+import { GlobalState } from '@/utils/stateMapper'
+
+/** 一次获取播放链接的结果 */
+export interface ISourceHealthRecord {
+	/** 时间戳 */
+	time: number
+	success: boolean
+	/** 耗时(ms) */
+	latency: number
+	/** 实际获取到的音质 */
+	quality?: IMusic.IQualityKey
+	error?: string
+}
+
+export interface ISourceHealthSummary {
+	/** 记录条数 */
+	total: number
+	/** 成功率 0~1 */
+	successRate: number
+	/** 成功请求耗时的中位数(ms)，没有成功记录时为 null */
+	medianLatency: number | null
+	/** 各音质获取成功的次数 */
+	qualityCounts: Partial<Record<IMusic.IQualityKey, number>>
+	lastError?: string
+	lastErrorTime?: number
+}
+
+/** 每个音源保留的记录条数 */
+const maxRecords = 50
+/** 自动选择音源时，至少需要的记录条数 */
+export const minRecordsToCompare = 3
+
+const getHealthStore = () => getOrCreateMMKV('SourceHealth')
+
+/** 数据变化时自增，用于刷新界面 */
+const healthVersion = new GlobalState<number>(0)
+
+/**
+ * 获取音源的记录，从早到晚
+ * @param musicApiId 音源 id
+ */
+export function getSourceHealthRecords(musicApiId: string): ISourceHealthRecord[] {
+	const raw = getHealthStore().getString(musicApiId)
+	return (raw && safeParse<ISourceHealthRecord[]>(raw)) || []
+}
+
+/**
+ * 记录一次获取播放链接的结果，只保留最近的记录
+ * @param musicApiId 音源 id
+ * @param record 结果
+ */
+export function recordSourceHealth(musicApiId: string, record: ISourceHealthRecord) {
+	const records = [...getSourceHealthRecords(musicApiId), record].slice(-maxRecords)
+	getHealthStore().set(musicApiId, JSON.stringify(records))
+	healthVersion.setValue((version) => version + 1)
+}
+
+const getMedian = (values: number[]) => {
+	if (!values.length) {
+		return null
+	}
+	const sorted = [...values].sort((a, b) => a - b)
+	const middle = Math.floor(sorted.length / 2)
+	return sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+}
+
+/**
+ * 获取音源的统计
+ * @param musicApiId 音源 id
+ */
+export function getSourceHealthSummary(musicApiId: string): ISourceHealthSummary {
+	const records = getSourceHealthRecords(musicApiId)
+	const successRecords = records.filter((record) => record.success)
+	const lastFailure = [...records].reverse().find((record) => !record.success)
+	const qualityCounts: Partial<Record<IMusic.IQualityKey, number>> = {}
+	for (const record of successRecords) {
+		if (record.quality) {
+			qualityCounts[record.quality] = (qualityCounts[record.quality] ?? 0) + 1
+		}
+	}
+	return {
+		total: records.length,
+		successRate: records.length ? successRecords.length / records.length : 0,
+		medianLatency: getMedian(successRecords.map((record) => record.latency)),
+		qualityCounts,
+		lastError: lastFailure?.error,
+		lastErrorTime: lastFailure?.time,
+	}
+}
+
+/** 比较耗时，没有耗时记录的排在后面，都没有时视为相同 */
+const compareLatency = (a: number | null, b: number | null) =>
+	a === b ? 0 : (a ?? Infinity) - (b ?? Infinity)
+
+/**
+ * 比较两个音源的统计，a 更健康时返回负数
+ * 成功率高的优先，成功率相同时耗时短的优先
+ */
+export const compareSourceHealth = (a: ISourceHealthSummary, b: ISourceHealthSummary) =>
+	b.successRate - a.successRate || compareLatency(a.medianLatency, b.medianLatency)
+
+/**
+ * 获取最健康的音源，记录太少的音源不参与比较
+ * @param musicApiIds 候选音源 id
+ * @returns 没有可比较的音源时返回 null
+ */
+export function getHealthiestMusicApiId(musicApiIds: string[]) {
+	const candidates = musicApiIds
+		.map((id) => ({ id, summary: getSourceHealthSummary(id) }))
+		.filter(({ summary }) => summary.total >= minRecordsToCompare)
+		.sort((a, b) => compareSourceHealth(a.summary, b.summary))
+	return candidates[0]?.id ?? null
+}
+
+/** 清空所有记录 */
+export function clearSourceHealth() {
+	getHealthStore().clearAll()
+	healthVersion.setValue((version) => version + 1)
+}
+
+/** 记录变化时返回新的版本号 */
+export const useSourceHealthVersion = healthVersion.useValue
@@ -0,0 +1,56 @@
+import PersistStatus from '@/store/PersistStatus'
+import { includesMedia, isSameMediaItem } from '@/utils/mediaItem'
+import { GlobalState } from '@/utils/stateMapper'
+
+/** "接下来播放"队列，优先于播放列表播放，播放后移出 */
+const upNextStore = new GlobalState<IMusic.IMusicItem[]>([])
+
+/** 从本地恢复"接下来播放"队列 */
+export function setupUpNext() {
+	const upNext = PersistStatus.get('music.upNext')
+	if (Array.isArray(upNext)) {
+		upNextStore.setValue(upNext)
+	}
+}
+
+/**
+ * 设置"接下来播放"队列
+ * @param upNext 新的队列
+ */
+export function setUpNext(upNext: IMusic.IMusicItem[]) {
+	upNextStore.setValue(upNext)
+	PersistStatus.set('music.upNext', upNext)
+}
+
+/** 获取"接下来播放"队列 */
+export const getUpNext = upNextStore.getValue
+
+/** hook */
+export const useUpNext = upNextStore.useValue
+
+/**
+ * 添加到"接下来播放"队列，已在队列中的歌曲会移动到新位置
+ * @param musicItems 歌曲
+ * @param atFront 添加到队首(下一首播放)，否则添加到队尾
+ */
+export function addToUpNext(musicItems: IMusic.IMusicItem[], atFront = false) {
+	const rest = upNextStore.getValue().filter((item) => !includesMedia(musicItems, item))
+	setUpNext(atFront ? [...musicItems, ...rest] : [...rest, ...musicItems])
+}
+
+/**
+ * 从"接下来播放"队列移除
+ * @param musicItem 歌曲
+ */
+export function removeFromUpNext(musicItem: IMusic.IMusicItem) {
+	setUpNext(upNextStore.getValue().filter((item) => !isSameMediaItem(item, musicItem)))
+}
+
+/** 取出下一首要播放的歌曲 */
+export function shiftUpNext() {
+	const [next, ...rest] = upNextStore.getValue()
+	if (next) {
+		setUpNext(rest)
+	}
+	return next ?? null
+}
@@ -0,0 +1,89 @@
+import getOrCreateMMKV from '@/store/getOrCreateMMKV'
+import PersistStatus from '@/store/PersistStatus'
+import safeParse from '@/utils/safeParse'
+import { GlobalState } from '@/utils/stateMapper'
+import * as SecureStore from 'expo-secure-store'
+import QuickCrypto from 'react-native-quick-crypto'
+
+/** 加密密钥保存在系统钥匙串(Keystore)中的 key */
+const encryptionKeyName = 'userVariablesKey'
+
+/** 数据变化时自增，用于刷新界面 */
+const variablesVersion = new GlobalState<number>(0)
+
+/** 读取钥匙串较慢，读取后缓存 */
+let encryptionKey: string | null = null
+
+/** 生成随机密钥，MMKV 的加密密钥最长 16 字节：12 字节随机数的 base64 */
+const generateEncryptionKey = () => QuickCrypto.randomBytes(12).toString('base64')
+
+/**
+ * 获取加密密钥，第一次使用时生成并保存到钥匙串
+ * 旧版本把密钥保存在 PersistStatus 中，迁移时换用新密钥重新加密
+ */
+const getEncryptionKey = () => {
+	if (encryptionKey) {
+		return encryptionKey
+	}
+	encryptionKey = SecureStore.getItem(encryptionKeyName)
+	if (encryptionKey) {
+		return encryptionKey
+	}
+	const newKey = generateEncryptionKey()
+	const legacyKey = PersistStatus.get('app.userVariablesKey')
+	if (legacyKey) {
+		getOrCreateMMKV('UserVariables', false, legacyKey).recrypt(newKey)
+	}
+	SecureStore.setItem(encryptionKeyName, newKey)
+	PersistStatus.set('app.userVariablesKey', undefined)
+	encryptionKey = newKey
+	return newKey
+}
+
+/** 用户变量可能包含 API Key 等信息，加密存储 */
+const getVariablesStore = () => getOrCreateMMKV('UserVariables', false, getEncryptionKey())
+
+/**
+ * 获取音源的用户变量
+ * @param musicApiId 音源 id
+ */
+export function getUserVariables(musicApiId: string): Record<string, string> {
+	const raw = getVariablesStore().getString(musicApiId)
+	return (raw && safeParse<Record<string, string>>(raw)) || {}
+}
+
+/**
+ * 保存音源的用户变量，空值不保存
+ * @param musicApiId 音源 id
+ * @param variables 变量，key 为脚本声明的 key
+ */
+export function setUserVariables(musicApiId: string, variables: Record<string, string>) {
+	const filtered = Object.fromEntries(
+		Object.entries(variables)
+			.map(([key, value]) => [key, value?.trim() ?? ''])
+			.filter(([, value]) => value),
+	)
+	getVariablesStore().set(musicApiId, JSON.stringify(filtered))
+	variablesVersion.setValue((version) => version + 1)
+}
+
+/**
+ * 删除音源的用户变量
+ * @param musicApiId 音源 id
+ */
+export function removeUserVariables(musicApiId: string) {
+	getVariablesStore().delete(musicApiId)
+	variablesVersion.setValue((version) => version + 1)
+}
+
+/**
+ * 注入到脚本的 env，每次调用时读取最新的值
+ * @param musicApiId 音源 id
+ */
+export const createSourceEnv = (musicApiId: string) =>
+	Object.freeze({
+		getUserVariables: () => ({ ...getUserVariables(musicApiId) }),
+	})
+
+/** 用户变量变化时返回新的版本号 */
+export const useUserVariablesVersion = variablesVersion.useValue
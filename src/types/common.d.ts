@@ -57,6 +57,14 @@ declare namespace ICommon {
         mediaItem?: Partial<IMediaBase>;
         /** 歌词偏移 */
         lyricOffset?: number;
+        /** 记住的播放速度 */
+        rate?: number;
+        /** 自定义的开始位置(s)，用于跳过片头 */
+        startTime?: number;
+        /** 自定义的结束位置(s)，用于跳过片尾 */
+        endTime?: number;
+        /** 自动换源时匹配到的其他平台的歌曲 */
+        matchedMusic?: IMusic.IMusicItem;
 
         lrc?: string;
         associatedLrc?: IMediaBase;
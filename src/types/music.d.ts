@@ -212,11 +212,55 @@ declare namespace IMusic {
         script: string;
         /** 音源方法 */
         getMusicUrl: any;
+        /** 单次请求超时(ms) */
+        timeout?: number;
+        /** 音质降级顺序 */
+        qualityOrder?: IQualityKey[];
+        /** 播放链接有效期(ms) */
+        urlTTL?: number;
+        /** 脚本允许访问的域名，为空时不限制 */
+        allowedDomains?: string[];
+        /** 导入时脚本内容的 sha256，加载前校验 */
+        hash?: string;
+        /** 验证签名通过的公钥名称 */
+        signatureKey?: string;
+        /** 脚本声明的用户变量，如 API Key、服务器地址 */
+        userVariables?: IPlugin.IUserVariable[];
+        /** 是否为洛雪音乐格式的自定义源 */
+        isLxUserApi?: boolean;
+        /** 洛雪音乐自定义源声明支持的平台、音质和操作 */
+        lxSources?: Partial<LX.UserApi.UserApiSources>;
+        /** 获取歌词，洛雪音乐自定义源支持 lyric 时提供 */
+        getLyric?: (musicItem: IMusicItem) => Promise<string | null>;
+        /** 获取封面，洛雪音乐自定义源支持 pic 时提供 */
+        getPic?: (musicItem: IMusicItem) => Promise<string | null>;
         /** 其他可以被序列化的信息 */
         [k: string]: any;
         /** 内部信息 */
         [k: symbol]: any;
     }
+    /** 音源状态 */
+    export interface MusicApiState {
+        status: '正常' | '异常';
+        /** 最近一次失败原因 */
+        error?: string;
+        updatedAt: number;
+    }
+    /** 播放记录 */
+    export interface IPlayHistoryItem {
+        musicItem: IMusicItem;
+        /** 开始播放的时间戳 */
+        playedAt: number;
+        /** 提供链接的音源 */
+        musicApiId?: string;
+        musicApiName?: string;
+        /** 实际收听的时长(s)，不包含拖动进度跳过的部分 */
+        listenedDuration: number;
+        /** 歌曲时长(s) */
+        duration: number;
+        /** 是否在播放完之前被切走 */
+        skipped: boolean;
+    }
     export interface IMusicItemCache extends IMusicItem {
         $localLyric?: ILyric.ILyricSource;
     }
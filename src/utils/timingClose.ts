@@ -5,7 +5,11 @@ import { useEffect, useRef, useState } from 'react'
 import BackgroundTimer from 'react-native-background-timer'
 
 import { logInfo } from '@/helpers/logger'
+import PersistStatus from '@/store/PersistStatus'
+import { getUpNext } from '@/store/upNext'
+import { isSameMediaItem } from '@/utils/mediaItem'
 import { NativeModule, NativeModules } from 'react-native'
+import ReactNativeTrackPlayer, { Event } from 'react-native-track-player'
 
 interface INativeUtils extends NativeModule {
 	exitApp: () => void
@@ -13,38 +17,190 @@ interface INativeUtils extends NativeModule {
 	requestStoragePermission: () => void
 }
 
+/** 定时关闭的方式：到指定时间、播完指定数量的歌曲、播完播放列表 */
+export type TimingCloseMode = 'time' | 'tracks' | 'queueEnd'
+
+export interface ITimingClose {
+	mode: TimingCloseMode
+	/** 到时间关闭的时间戳 */
+	deadline?: number
+	/** 还要播放的歌曲数，包括当前歌曲 */
+	remainingTracks?: number
+}
+
 const NativeUtils = NativeModules.NativeUtils
-let deadline: number | null = null
-const stateMapper = new StateMapper(() => deadline)
-// let closeAfterPlayEnd = false;
-// const closeAfterPlayEndStateMapper = new StateMapper(() => closeAfterPlayEnd);
+let timingClose: ITimingClose | null = null
+const stateMapper = new StateMapper(() => timingClose)
 let timerId: any
+let fadeTimerId: any
+/** 音量是否已被淡出修改 */
+let isFading = false
+let hasSetupProgressListener = false
 
-function setTimingClose(_deadline: number | null) {
-	deadline = _deadline
-	stateMapper.notify()
+const getFadeSeconds = () => PersistStatus.get('music.timingCloseFadeSeconds') ?? 0
+
+function restoreVolume() {
+	if (isFading) {
+		isFading = false
+		ReactNativeTrackPlayer.setVolume(1)
+	}
+}
+
+/**
+ * 根据距离关闭的剩余时间调整音量
+ * @param remainingSeconds 剩余时间(s)
+ */
+function updateFadeVolume(remainingSeconds: number) {
+	const fadeSeconds = getFadeSeconds()
+	if (fadeSeconds <= 0 || remainingSeconds > fadeSeconds) {
+		restoreVolume()
+		return
+	}
+	isFading = true
+	ReactNativeTrackPlayer.setVolume(Math.max(remainingSeconds / fadeSeconds, 0))
+}
+
+function clearTimers() {
 	timerId && BackgroundTimer.clearTimeout(timerId)
+	fadeTimerId && BackgroundTimer.clearInterval(fadeTimerId)
+	timerId = null
+	fadeTimerId = null
+}
+
+/** 当前歌曲是否为关闭前的最后一首 */
+function isFinalTrack() {
+	if (timingClose?.mode === 'tracks') {
+		return timingClose.remainingTracks === 1
+	}
+	if (timingClose?.mode === 'queueEnd') {
+		const playList = myTrackPlayer.getPlayList()
+		const currentMusic = myTrackPlayer.getCurrentMusic()
+		// "接下来播放"中还有歌曲时，播放列表的最后一首之后仍会继续播放
+		return (
+			!!currentMusic &&
+			getUpNext().length === 0 &&
+			playList.length > 0 &&
+			isSameMediaItem(playList[playList.length - 1], currentMusic)
+		)
+	}
+	return false
+}
+
+/** 歌曲播放结束时判断是否需要停止，由播放器调用 */
+function handleTrackEnd() {
+	if (!timingClose || timingClose.mode === 'time') {
+		return false
+	}
+	if (timingClose.mode === 'tracks' && (timingClose.remainingTracks ?? 0) > 1) {
+		updateTimingClose({
+			...timingClose,
+			remainingTracks: (timingClose.remainingTracks ?? 0) - 1,
+		})
+		return false
+	}
+	if (!isFinalTrack()) {
+		return false
+	}
+	logInfo('定时关闭：已播放完，暂停播放')
+	setTimingClose(null)
+	return true
+}
+
+/** 按歌曲关闭时，在最后一首歌的结尾淡出 */
+function setupProgressListener() {
+	if (hasSetupProgressListener) {
+		return
+	}
+	hasSetupProgressListener = true
+	ReactNativeTrackPlayer.addEventListener(Event.PlaybackProgressUpdated, (evt) => {
+		if (
+			timingClose &&
+			timingClose.mode !== 'time' &&
+			evt.track === 0 &&
+			evt.duration > 0 &&
+			isFinalTrack()
+		) {
+			updateFadeVolume(evt.duration - evt.position)
+		}
+	})
+}
+
+function updateTimingClose(_timingClose: ITimingClose | null) {
+	timingClose = _timingClose
+	stateMapper.notify()
+	myTrackPlayer.setTrackEndInterceptor(
+		_timingClose && _timingClose.mode !== 'time' ? handleTrackEnd : null,
+	)
+}
+
+/**
+ * 到指定时间暂停播放
+ * @param _deadline 时间戳，为空时取消定时关闭
+ */
+function setTimingClose(_deadline: number | null) {
+	clearTimers()
+	restoreVolume()
+	updateTimingClose(_deadline ? { mode: 'time', deadline: _deadline } : null)
 	if (_deadline) {
 		logInfo('将在', (_deadline - Date.now()) / 1000 / 60, '分钟后暂停播放')
 		timerId = BackgroundTimer.setTimeout(async () => {
-			// todo: 播完整首歌再关闭
+			clearTimers()
+			updateTimingClose(null)
 			await myTrackPlayer.pause()
+			restoreVolume()
 			// NativeUtils.exitApp()
-			// if(closeAfterPlayEnd) {
-			//     myTrackPlayer.addEventListener()
-			// } else {
-			//     // 立即关闭
-			//     NativeUtils.exitApp();
-			// }
 		}, _deadline - Date.now())
-	} else {
-		timerId = null
+		const fadeSeconds = getFadeSeconds()
+		if (fadeSeconds > 0) {
+			fadeTimerId = BackgroundTimer.setInterval(() => {
+				updateFadeVolume((_deadline - Date.now()) / 1000)
+			}, 1000)
+		}
+	}
+}
+
+/**
+ * 播完指定数量的歌曲后暂停播放
+ * @param count 歌曲数，包括当前歌曲，1 为播完当前歌曲
+ */
+function setTimingCloseAfterTracks(count: number) {
+	clearTimers()
+	restoreVolume()
+	setupProgressListener()
+	logInfo('将在播放完', count, '首歌曲后暂停播放')
+	updateTimingClose({ mode: 'tracks', remainingTracks: Math.max(Math.floor(count), 1) })
+}
+
+/** 播完播放列表后暂停播放 */
+function setTimingCloseAtQueueEnd() {
+	clearTimers()
+	restoreVolume()
+	setupProgressListener()
+	logInfo('将在播放列表播放完后暂停播放')
+	updateTimingClose({ mode: 'queueEnd' })
+}
+
+/**
+ * 设置关闭前音量淡出的时长，下次设置定时关闭时生效
+ * @param seconds 淡出时长(s)，0 为不淡出
+ */
+function setTimingCloseFadeSeconds(seconds: number) {
+	PersistStatus.set('music.timingCloseFadeSeconds', seconds)
+	if (timingClose?.mode === 'time' && timingClose.deadline) {
+		// 重新设置定时器，使淡出时长立即生效
+		setTimingClose(timingClose.deadline)
+	} else if (seconds <= 0) {
+		restoreVolume()
 	}
 }
 
+/**
+ * 当前的定时关闭，countDown 为按时间关闭时剩余的秒数
+ */
 function useTimingClose() {
-	const _deadline = stateMapper.useMappedState()
-	const [countDown, setCountDown] = useState(deadline ? deadline - Date.now() : null)
+	const _timingClose = stateMapper.useMappedState()
+	const _deadline = _timingClose?.mode === 'time' ? _timingClose.deadline : null
+	const [countDown, setCountDown] = useState(_deadline ? (_deadline - Date.now()) / 1000 : null)
 	const intervalRef = useRef<any>()
 
 	useEffect(() => {
@@ -64,9 +220,18 @@ function useTimingClose() {
 				setCountDown(Math.max(_deadline - Date.now(), 0) / 1000)
 			}, 1000)
 		}
+		return () => {
+			intervalRef.current && clearInterval(intervalRef.current)
+		}
 	}, [_deadline])
 
-	return countDown
+	return _timingClose ? { ..._timingClose, countDown } : null
 }
 
-export { setTimingClose, useTimingClose }
+export {
+	setTimingClose,
+	setTimingCloseAfterTracks,
+	setTimingCloseAtQueueEnd,
+	setTimingCloseFadeSeconds,
+	useTimingClose,
+}